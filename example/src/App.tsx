@@ -3,7 +3,7 @@ import 'react-app-polyfill/ie11'
 import * as React from 'react'
 import { FunctionComponent, useState, useCallback } from 'react'
 import makeStyles from '@material-ui/core/styles/makeStyles'
-import { Timeline } from '../../dist'
+import { calcMaxDomain, Timeline, TimelineOverview } from '../../dist'
 import { Set as ImmutableSet } from 'immutable'
 // @ts-ignore – IntelliJ doesn't believe that parcel can import JSON (https://parceljs.org/json.html)
 import data from './data.json'
@@ -12,7 +12,7 @@ import AutoSizer, { Size } from 'react-virtualized-auto-sizer'
 import { CustomizedTimeline } from './CustomizedTimeline'
 import { ExampleEvent, ExampleLane, ExampleProps, TimelineEventId, TimelineLaneId } from './types'
 import Switch from '@material-ui/core/Switch'
-import { LaneDisplayMode, TimelineProps } from '../../src'
+import { Domain, LaneDisplayMode, TimelineProps } from '../../src'
 import Card from '@material-ui/core/Card'
 
 const useStyles = makeStyles({
@@ -46,6 +46,8 @@ const useStyles = makeStyles({
   },
 })
 
+const overviewHeight = 40
+
 const dateFormat = (ms: number) => timeFormat('%d.%m.%Y')(new Date(ms))
 const lanes: ReadonlyArray<ExampleLane> = data.lanes
 const rawEvents: ReadonlyArray<ExampleEvent> = data.events
@@ -104,6 +106,7 @@ const DemoTimeline = ({
   const [zoomRange, setZoomRange] = useState<[number, number]>()
   const [cursorZoomRange, setCursorZoomRange] = useState<[number, number] | undefined>()
   const [trimRange, setTrimRange] = useState<[number, number] | undefined>()
+  const [domain, setDomain] = useState<Domain | undefined>()
   const events = rawEvents.map((e: ExampleEvent) => ({
     ...e,
     tooltip: eventTooltip(e),
@@ -164,7 +167,7 @@ const DemoTimeline = ({
         {({ width, height }: Size) => {
           const timelineProps: TimelineProps<TimelineEventId, TimelineLaneId> = {
             width,
-            height,
+            height: height - overviewHeight,
             dateFormat,
             lanes,
             events,
@@ -178,8 +181,21 @@ const DemoTimeline = ({
             trimRange,
             onTrimRangeChange,
             onInteractionEnd,
+            domain,
+            onDomainChange: setDomain,
           }
-          return React.createElement(timelineComponent, timelineProps)
+          return (
+            <div>
+              {React.createElement(timelineComponent, timelineProps)}
+              <TimelineOverview
+                width={width}
+                height={overviewHeight}
+                events={events}
+                domain={domain || calcMaxDomain(events)}
+                onDomainChange={setDomain}
+              />
+            </div>
+          )
         }}
       </AutoSizer>
     </div>
@@ -219,15 +235,23 @@ const KeyboardShortcuts = () => {
           </tr>
           <tr>
             <td>Zoom Out:</td>
-            <td>Alt + Click</td>
+            <td>Alt + Click / Long Press</td>
           </tr>
           <tr>
             <td>Zoom Custom:</td>
             <td>Shift + Click + Drag</td>
           </tr>
+          <tr>
+            <td>Zoom Continuous:</td>
+            <td>Mouse Wheel (Ctrl + Wheel if lanes scroll) / Pinch</td>
+          </tr>
           <tr>
             <td>Pan:</td>
-            <td>Click + Drag</td>
+            <td>Click + Drag / Swipe / Horizontal Scroll</td>
+          </tr>
+          <tr>
+            <td>Keyboard (focused):</td>
+            <td>Arrows (pan / scroll), +/- (zoom), Home/End, Tab (events)</td>
           </tr>
           <tr>
             <td>Trim (toggle):</td>
@@ -0,0 +1,138 @@
+import * as React from 'react'
+import { ScaleLinear } from 'd3-scale'
+import { Domain, EventAggregation, TimelineEvent } from './model'
+import { useTimelineTheme } from './TimelineTheme'
+
+/** Horizontal extent (in pixels) of a single bucket */
+export const bucketWidth = 20
+
+export interface EventBucket<EID, LID> {
+  /** Time range covered by the bucket */
+  binDomain: Domain
+  /** Time range covered by the events of the bucket */
+  eventDomain: Domain
+  events: ReadonlyArray<TimelineEvent<EID, LID>>
+}
+
+/**
+ * Groups events into buckets of `bucketWidth` pixels (based on their start time).
+ *
+ * Bucket boundaries are aligned to multiples of the bucket duration (rather than to the current domain), such that
+ * buckets remain stable while panning.
+ */
+export const binEvents = <EID, LID>(
+  events: ReadonlyArray<TimelineEvent<EID, LID>>,
+  timeScale: ScaleLinear<number, number>
+): ReadonlyArray<EventBucket<EID, LID>> => {
+  const binDuration = timeScale.invert(bucketWidth) - timeScale.invert(0)
+  const bins = new Map<number, Array<TimelineEvent<EID, LID>>>()
+  events.forEach((e) => {
+    const binIndex = Math.floor(e.startTimeMillis / binDuration)
+    const bin = bins.get(binIndex)
+    bin ? bin.push(e) : bins.set(binIndex, [e])
+  })
+  return Array.from(bins.entries()).map(([binIndex, binEvents]) => ({
+    binDomain: [binIndex * binDuration, (binIndex + 1) * binDuration] as Domain,
+    eventDomain: binEvents.reduce<Domain>(
+      ([start, end], e) => [
+        Math.min(start, e.startTimeMillis),
+        Math.max(end, e.endTimeMillis === undefined ? e.startTimeMillis : e.endTimeMillis),
+      ],
+      [Infinity, -Infinity]
+    ),
+    events: binEvents,
+  }))
+}
+
+/** Whether events are dense enough to be aggregated, i.e. if any bucket holds more than `threshold` events */
+export const isAggregationNeeded = <EID, LID>(
+  buckets: ReadonlyArray<EventBucket<EID, LID>>,
+  aggregation: EventAggregation,
+  threshold: number
+) => aggregation !== 'none' && buckets.some((b) => b.events.length > threshold)
+
+interface Props<EID, LID> {
+  buckets: ReadonlyArray<EventBucket<EID, LID>>
+  aggregation: EventAggregation
+  timeScale: ScaleLinear<number, number>
+  y: number
+  /** Height of the bar representing the biggest bucket (histogram only) */
+  maxBarHeight: number
+  onAggregateHover: () => void
+  onAggregateUnhover: () => void
+  onAggregateClick: (eventDomain: Domain) => void
+}
+
+/**
+ * Draws one mark per bucket (instead of one mark per event), either as a badge showing the number of events, or as a
+ * histogram bar. Clicking a bucket zooms into the time range covered by its events.
+ */
+export const AggregatedMarks = <EID, LID>({
+  buckets,
+  aggregation,
+  timeScale,
+  y,
+  maxBarHeight,
+  onAggregateHover,
+  onAggregateUnhover,
+  onAggregateClick,
+}: Props<EID, LID>) => {
+  const theme = useTimelineTheme()
+  const maxCount = buckets.reduce((max, b) => Math.max(max, b.events.length), 0)
+
+  const marks = buckets.map((bucket) => {
+    const x = timeScale(bucket.binDomain[0])!
+    const count = bucket.events.length
+    const style: React.CSSProperties = bucket.events.some((e) => e.isSelected)
+      ? {
+          fill: theme.event.selectedColor,
+          stroke: theme.event.selectedStrokeColor,
+          strokeWidth: theme.event.strokeWidth,
+        }
+      : {
+          fill: theme.event.color,
+          fillOpacity: theme.event.opacity,
+          stroke: theme.base.backgroundColor,
+          strokeWidth: theme.event.strokeWidth,
+        }
+    const onClick = () => onAggregateClick(bucket.eventDomain)
+    return (
+      <g
+        key={bucket.binDomain[0]}
+        pointerEvents={'bounding-box'}
+        cursor={'zoom-in'}
+        onPointerEnter={onAggregateHover}
+        onPointerLeave={onAggregateUnhover}
+        onClick={onClick}
+      >
+        {aggregation === 'histogram' ? (
+          <rect
+            style={style}
+            x={x}
+            y={y - (count / maxCount) * maxBarHeight}
+            width={bucketWidth}
+            height={(count / maxCount) * maxBarHeight}
+          />
+        ) : (
+          <g>
+            <circle style={style} cx={x + bucketWidth / 2} cy={y} r={bucketWidth / 2} />
+            <text
+              x={x + bucketWidth / 2}
+              y={y}
+              fill={theme.base.textColor}
+              fontFamily={theme.base.fontFamily}
+              fontSize={10}
+              fontWeight={'bold'}
+              textAnchor={'middle'}
+              dominantBaseline={'middle'}
+            >
+              {count}
+            </text>
+          </g>
+        )}
+      </g>
+    )
+  })
+
+  return <g>{marks}</g>
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react'
+import { Domain } from './model'
+
+/** Maps the elapsed fraction of an animation (0 to 1) to the fraction of the distance covered */
+export type Easing = (t: number) => number
+
+export const linearEasing: Easing = (t) => t
+
+export const cubicOutEasing: Easing = (t) => 1 - Math.pow(1 - t, 3)
+
+export const cubicInOutEasing: Easing = (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+
+/** Domain at a given (eased) fraction `t` of the way from one domain to another */
+export const interpolateDomain = ([fromStart, fromEnd]: Domain, [toStart, toEnd]: Domain, t: number): Domain => [
+  fromStart + t * (toStart - fromStart),
+  fromEnd + t * (toEnd - fromEnd),
+]
+
+const reducedMotionQuery = '(prefers-reduced-motion: reduce)'
+
+const matchReducedMotion = () =>
+  typeof window !== 'undefined' && window.matchMedia ? window.matchMedia(reducedMotionQuery) : undefined
+
+/** Whether the user asked the operating system to minimize animations (updated when the setting changes) */
+export const usePrefersReducedMotion = () => {
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(() => !!matchReducedMotion()?.matches)
+
+  useEffect(() => {
+    const mediaQuery = matchReducedMotion()
+    if (!mediaQuery) {
+      return
+    }
+    const onChange = () => setPrefersReducedMotion(mediaQuery.matches)
+    // `addListener` is deprecated, but the only option in older Safari versions
+    mediaQuery.addListener(onChange)
+    return () => mediaQuery.removeListener(onChange)
+  }, [])
+
+  return prefersReducedMotion
+}
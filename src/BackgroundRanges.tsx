@@ -0,0 +1,92 @@
+import * as React from 'react'
+import { ScaleLinear } from 'd3-scale'
+import { BackgroundRangeGenerator, TimelineBackgroundRange } from './model'
+import { dayDuration, weekDuration } from './ZoomScale'
+import { startOfWallClockDay, startOfWallClockWeek, timeZoneConversion } from './TimeZone'
+import { useTimelineTheme } from './TimelineTheme'
+import { clamp } from './shared'
+
+interface Props {
+  ranges: ReadonlyArray<TimelineBackgroundRange>
+  timeScale: ScaleLinear<number, number>
+  width: number
+  height: number
+}
+
+/** Full-height shading of time ranges, clipped to the visible area (ranges outside of the domain are omitted) */
+export const BackgroundRanges = ({ ranges, timeScale, width, height }: Props) => {
+  const theme = useTimelineTheme()
+  const [domainStart, domainEnd] = timeScale.domain()
+  return (
+    <g pointerEvents={'none'}>
+      {ranges
+        .filter((r) => r.end > domainStart && r.start < domainEnd)
+        .map((r, index) => {
+          const startX = clamp(timeScale(r.start)!, 0, width)
+          const endX = clamp(timeScale(r.end)!, 0, width)
+          return (
+            <g key={`${r.start}-${index}`}>
+              <rect
+                x={startX}
+                y={0}
+                width={endX - startX}
+                height={height}
+                fill={r.color || theme.grid.rangeColor}
+                fillOpacity={theme.grid.rangeOpacity}
+              />
+              {r.label && (
+                <text x={startX + 4} y={height - 4} fill={theme.grid.labelColor} fontFamily={theme.base.fontFamily}>
+                  {r.label}
+                </text>
+              )}
+            </g>
+          )
+        })}
+    </g>
+  )
+}
+
+export interface RecurringBackgroundRanges {
+  period: 'day' | 'week'
+  /** Start of each range, as wall-clock time since the start of the day or week (Sunday, 0:00) */
+  offsetMillis: number
+  /** Wall-clock duration, i.e. a shift from 22:00 to 6:00 is an hour shorter when clocks are set forward */
+  durationMillis: number
+  color?: string
+  label?: string
+  /** IANA time zone name, the browser's time zone if undefined */
+  timeZone?: string
+  /** Domains spanning more periods than this show no ranges at all (they would hardly be visible anyway) */
+  maxRecurrences?: number
+}
+
+/** Generator of daily or weekly recurring ranges, e.g. shifts or weekends (for the `backgroundRanges` prop) */
+export const recurringBackgroundRanges = ({
+  period,
+  offsetMillis,
+  durationMillis,
+  color,
+  label,
+  timeZone,
+  maxRecurrences = 500,
+}: RecurringBackgroundRanges): BackgroundRangeGenerator => ([domainStart, domainEnd]) => {
+  const [periodDuration, startOfPeriod] =
+    period === 'day' ? [dayDuration, startOfWallClockDay] : [weekDuration, (ms: number) => startOfWallClockWeek(ms)]
+  if ((domainEnd - domainStart) / periodDuration > maxRecurrences) {
+    return []
+  }
+
+  const zone = timeZoneConversion(timeZone)
+  const ranges: TimelineBackgroundRange[] = []
+  // ranges of the previous period may reach into the domain (periods are wall-clock timestamps)
+  let periodStart = startOfPeriod(zone.toWallClock(domainStart)) - periodDuration
+  while (zone.fromWallClock(periodStart + offsetMillis) < domainEnd) {
+    const start = zone.fromWallClock(periodStart + offsetMillis)
+    const end = zone.fromWallClock(periodStart + offsetMillis + durationMillis)
+    if (end > domainStart) {
+      ranges.push({ start, end, color, label })
+    }
+    periodStart += periodDuration
+  }
+  return ranges
+}
@@ -0,0 +1,211 @@
+import * as React from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ScaleLinear } from 'd3-scale'
+import { TimelineEvent } from './model'
+import { SvgCoordinates } from './MouseAwareSvg'
+import { StaticEventTooltip } from './EventTooltip'
+import { noOp } from './shared'
+import { createEventIndex } from './EventIndex'
+import { useTimelineTheme } from './TimelineTheme'
+
+interface Props<EID, LID> {
+  width: number
+  height: number
+  events: ReadonlyArray<TimelineEvent<EID, LID>>
+  timeScale: ScaleLinear<number, number>
+  mousePosition: SvgCoordinates
+  /** Vertical center of a given event, `undefined` if the event should not be drawn */
+  eventY: (event: TimelineEvent<EID, LID>) => number | undefined
+  eventMarkerHeight?: number
+  onEventHover?: (eventId: EID) => void
+  onEventUnhover?: (eventId: EID) => void
+  onEventClick?: (eventId: EID, e?: React.MouseEvent) => void
+}
+
+interface DrawStyle {
+  fill: string
+  fillOpacity: number
+  stroke?: string
+}
+
+/**
+ * Performance-oriented alternative to `Marks`, drawing all events onto a single canvas instead of creating SVG elements.
+ *
+ * Drawing order and default styles are the same as in `Marks`. Since there are no SVG elements to attach listeners to,
+ * hovering and clicking are based on hit-testing the mouse position. Custom event components are not supported.
+ */
+export const CanvasMarks = <EID extends string, LID extends string>({
+  width,
+  height,
+  events,
+  timeScale,
+  mousePosition,
+  eventY,
+  eventMarkerHeight = 20,
+  onEventHover = noOp,
+  onEventUnhover = noOp,
+  onEventClick = noOp,
+}: Props<EID, LID>) => {
+  const theme = useTimelineTheme()
+  const canvas = useRef<HTMLCanvasElement>(null)
+  const [hoveredEventId, setHoveredEventId] = useState<EID | undefined>(undefined)
+
+  // read after mounting, such that rendering doesn't depend on browser APIs
+  const [pixelRatio, setPixelRatio] = useState(1)
+  useEffect(() => setPixelRatio(window.devicePixelRatio || 1), [])
+  const paperColor = theme.base.backgroundColor
+  const { color, opacity, strokeWidth, selectedColor, selectedStrokeColor, pinnedStrokeColor } = theme.event
+
+  // long event periods first, shorter event periods later, event circles next, selected events last
+  const orderedEvents = useMemo(() => {
+    const duration = (e: TimelineEvent<EID, LID>) => (e.endTimeMillis ? e.endTimeMillis - e.startTimeMillis : 0)
+    const sortedEvents = [...events].sort((a, b) => duration(b) - duration(a))
+    return [...sortedEvents.filter((e) => !e.isSelected), ...sortedEvents.filter((e) => e.isSelected)]
+  }, [events])
+
+  // hit-testing only considers the events near the mouse position, the topmost of them is the one drawn last
+  const eventIndex = useMemo(() => createEventIndex(orderedEvents), [orderedEvents])
+  const drawingOrder = useMemo(() => new Map(orderedEvents.map((e, index) => [e, index])), [orderedEvents])
+
+  useEffect(() => {
+    const context = canvas.current && canvas.current.getContext('2d')
+    if (!context) {
+      return
+    }
+
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    context.clearRect(0, 0, width, height)
+
+    const draw = (e: TimelineEvent<EID, LID>, style: DrawStyle) => {
+      const y = eventY(e)
+      if (y === undefined) {
+        return
+      }
+      const startX = timeScale(e.startTimeMillis)!
+      context.beginPath()
+      if (e.endTimeMillis === undefined) {
+        context.arc(startX, y, eventMarkerHeight / 2, 0, 2 * Math.PI)
+      } else {
+        context.rect(startX, y - eventMarkerHeight / 2, timeScale(e.endTimeMillis)! - startX, eventMarkerHeight)
+      }
+      context.globalAlpha = style.fillOpacity
+      context.fillStyle = style.fill
+      context.fill()
+      if (style.stroke) {
+        context.globalAlpha = 1
+        context.lineWidth = strokeWidth
+        context.strokeStyle = style.stroke
+        context.stroke()
+      }
+    }
+
+    // opaque background to prevent axis-/grid-lines from shining through
+    orderedEvents.forEach((e) => draw(e, { fill: paperColor, fillOpacity: 1 }))
+    orderedEvents.forEach((e) =>
+      draw(
+        e,
+        e.isSelected
+          ? { fill: selectedColor, fillOpacity: 1, stroke: e.isPinned ? pinnedStrokeColor : selectedStrokeColor }
+          : { fill: e.color || color, fillOpacity: opacity, stroke: e.isPinned ? pinnedStrokeColor : paperColor }
+      )
+    )
+  }, [
+    orderedEvents,
+    timeScale,
+    eventY,
+    eventMarkerHeight,
+    width,
+    height,
+    pixelRatio,
+    paperColor,
+    color,
+    opacity,
+    strokeWidth,
+    selectedColor,
+    selectedStrokeColor,
+    pinnedStrokeColor,
+  ])
+
+  const isHit = (e: TimelineEvent<EID, LID>) => {
+    const y = eventY(e)
+    if (y === undefined) {
+      return false
+    }
+    const startX = timeScale(e.startTimeMillis)!
+    if (e.endTimeMillis === undefined) {
+      const [dx, dy] = [mousePosition.x - startX, mousePosition.y - y]
+      return dx * dx + dy * dy <= (eventMarkerHeight / 2) * (eventMarkerHeight / 2)
+    } else {
+      const endX = timeScale(e.endTimeMillis)!
+      return (
+        mousePosition.x >= startX && mousePosition.x <= endX && Math.abs(mousePosition.y - y) <= eventMarkerHeight / 2
+      )
+    }
+  }
+
+  // topmost event at the mouse position (i.e. the last one drawn)
+  const findHitEvent = () => {
+    if (isNaN(mousePosition.x)) {
+      return undefined
+    }
+    const radius = eventMarkerHeight / 2
+    const [fromTime, toTime] = [timeScale.invert(mousePosition.x - radius), timeScale.invert(mousePosition.x + radius)]
+    const nearbyEvents = eventIndex.eventsInside([Math.min(fromTime, toTime), Math.max(fromTime, toTime)])
+    return nearbyEvents.reduce<TimelineEvent<EID, LID> | undefined>(
+      (topmost, e) => (isHit(e) && (!topmost || drawingOrder.get(e)! > drawingOrder.get(topmost)!) ? e : topmost),
+      undefined
+    )
+  }
+
+  const hitEvent = findHitEvent()
+  const hitEventId = hitEvent && hitEvent.eventId
+
+  useEffect(() => {
+    if (hitEventId !== hoveredEventId) {
+      if (hoveredEventId !== undefined) {
+        onEventUnhover(hoveredEventId)
+      }
+      if (hitEventId !== undefined) {
+        onEventHover(hitEventId)
+      }
+      setHoveredEventId(hitEventId)
+    }
+  }, [hitEventId, hoveredEventId, onEventHover, onEventUnhover])
+
+  const onClick = (e: React.MouseEvent) => {
+    if (hitEventId !== undefined) {
+      onEventClick(hitEventId, e)
+    }
+  }
+
+  const hitEventY = hitEvent && eventY(hitEvent)
+
+  return (
+    <g>
+      <foreignObject x={0} y={0} width={width} height={height} pointerEvents={'none'}>
+        <canvas ref={canvas} width={width * pixelRatio} height={height * pixelRatio} style={{ width, height }} />
+      </foreignObject>
+      {/* transparent area on top of the canvas receives the mouse events */}
+      <rect
+        x={0}
+        y={0}
+        width={width}
+        height={height}
+        fill={'transparent'}
+        cursor={hitEvent && !hitEvent.isEditable ? 'default' : undefined}
+        onClick={onClick}
+      />
+      {hitEvent && hitEvent.tooltip && hitEventY !== undefined && (
+        <g pointerEvents={'none'}>
+          <StaticEventTooltip
+            type={hitEvent.endTimeMillis ? 'period' : { singleEventX: timeScale(hitEvent.startTimeMillis)! }}
+            y={hitEventY}
+            parentWidth={timeScale.range()[1]}
+            text={hitEvent.tooltip}
+            mousePosition={mousePosition}
+          />
+        </g>
+      )}
+    </g>
+  )
+}
@@ -1,11 +1,18 @@
 import * as React from 'react'
+import { useCallback, useMemo } from 'react'
 import { Marks } from './Marks'
 import { ScaleLinear } from 'd3-scale'
-import { EventComponentFactory, TimelineEvent } from './model'
+import { Domain, EventAggregation, EventComponentFactory, RenderMode, TimelineEvent } from './model'
 import { Axis } from './Axis'
+import { CanvasMarks } from './CanvasMarks'
+import { SvgCoordinates } from './MouseAwareSvg'
+import { AggregatedMarks, binEvents, isAggregationNeeded } from './Aggregation'
 
 interface Props<EID, LID> {
   mouseCursor: React.ReactNode
+  mousePosition: SvgCoordinates
+  renderMode: RenderMode
+  width: number
   height: number
   events: ReadonlyArray<TimelineEvent<EID, LID>>
   timeScale: ScaleLinear<number, number>
@@ -13,18 +20,72 @@ interface Props<EID, LID> {
   eventComponent?: EventComponentFactory<EID, LID>
   onEventHover?: (eventId: EID) => void
   onEventUnhover?: (eventId: EID) => void
-  onEventClick?: (eventId: EID) => void
+  onEventClick?: (eventId: EID, e?: React.MouseEvent) => void
+  eventAggregation: EventAggregation
+  aggregationThreshold: number
+  onAggregateHover: () => void
+  onAggregateUnhover: () => void
+  onAggregateClick: (eventDomain: Domain) => void
 }
 
 export const CollapsedMarks = <EID extends string, LID extends string>(props: Props<EID, LID>) => {
-  const { mouseCursor, height, events, timeScale, eventComponent, onEventHover, onEventUnhover, onEventClick } = props
+  const {
+    mouseCursor,
+    mousePosition,
+    renderMode,
+    width,
+    height,
+    events,
+    timeScale,
+    eventComponent,
+    onEventHover,
+    onEventUnhover,
+    onEventClick,
+    eventAggregation,
+    aggregationThreshold,
+    onAggregateHover,
+    onAggregateUnhover,
+    onAggregateClick,
+  } = props
   const y = height / 2
 
+  const buckets = useMemo(() => (eventAggregation === 'none' ? [] : binEvents(events, timeScale)), [
+    events,
+    timeScale,
+    eventAggregation,
+  ])
+  const isAggregated = isAggregationNeeded(buckets, eventAggregation, aggregationThreshold)
+
+  const eventY = useCallback(() => y, [y])
+
   return (
     <g>
       <Axis y={y} />
       {mouseCursor}
-      {
+      {isAggregated ? (
+        <AggregatedMarks
+          buckets={buckets}
+          aggregation={eventAggregation}
+          timeScale={timeScale}
+          y={y}
+          maxBarHeight={height / 4}
+          onAggregateHover={onAggregateHover}
+          onAggregateUnhover={onAggregateUnhover}
+          onAggregateClick={onAggregateClick}
+        />
+      ) : renderMode === 'canvas' ? (
+        <CanvasMarks
+          width={width}
+          height={height}
+          events={events}
+          timeScale={timeScale}
+          mousePosition={mousePosition}
+          eventY={eventY}
+          onEventHover={onEventHover}
+          onEventUnhover={onEventUnhover}
+          onEventClick={onEventClick}
+        />
+      ) : (
         <Marks
           events={events}
           timeScale={timeScale}
@@ -34,7 +95,7 @@ export const CollapsedMarks = <EID extends string, LID extends string>(props: Pr
           onEventUnhover={onEventUnhover}
           onEventClick={onEventClick}
         />
-      }
+      )}
     </g>
   )
 }
@@ -1,16 +1,5 @@
 import React from 'react'
-import { makeStyles, Theme } from '@material-ui/core'
-import { orange } from '@material-ui/core/colors'
-
-const useStyles = makeStyles((theme: Theme) => ({
-  label: {
-    fill: orange.A200,
-    textAnchor: 'middle',
-    dominantBaseline: 'middle',
-    fontFamily: theme.typography.caption.fontFamily,
-    cursor: 'default',
-  },
-}))
+import { useTimelineTheme } from './TimelineTheme'
 
 interface Props {
   x: number
@@ -18,13 +7,22 @@ interface Props {
   label: string
   y: number | string
   cursor: string
+  color?: string
 }
 
-function CursorLabel({ x, y, overline, label, cursor }: Props) {
-  const classes = useStyles()
+function CursorLabel({ x, y, overline, label, cursor, color }: Props) {
+  const theme = useTimelineTheme()
 
   return (
-    <text className={classes.label} x={x} y={y} cursor={cursor}>
+    <text
+      x={x}
+      y={y}
+      cursor={cursor}
+      fill={color || theme.mouseCursor.labelColor}
+      textAnchor={'middle'}
+      dominantBaseline={'middle'}
+      fontFamily={theme.base.fontFamily}
+    >
       <tspan x={x} cursor={cursor}>
         {overline}
       </tspan>
@@ -0,0 +1,82 @@
+import { ScaleLinear } from 'd3-scale'
+import { TimelineEvent } from './model'
+import { SvgCoordinates } from './MouseAwareSvg'
+
+export type EditVariant = 'move' | 'resize start' | 'resize end'
+
+export interface EditTarget<EID, LID> {
+  event: TimelineEvent<EID, LID>
+  variant: EditVariant
+}
+
+/** Horizontal extent (in pixels) of the area around period edges which resizes instead of moving */
+const resizeHandleWidth = 6
+
+const duration = <EID, LID>(e: TimelineEvent<EID, LID>) =>
+  e.endTimeMillis === undefined ? 0 : e.endTimeMillis - e.startTimeMillis
+
+/**
+ * Finds the editable event at a given position, and whether it would be moved or resized.
+ *
+ * If several events are hit, the topmost one (i.e. selected before shorter before longer events, as drawn by `Marks`)
+ * takes precedence.
+ */
+export const findEditTarget = <EID, LID>(
+  events: ReadonlyArray<TimelineEvent<EID, LID>>,
+  position: SvgCoordinates,
+  timeScale: ScaleLinear<number, number>,
+  eventY: (event: TimelineEvent<EID, LID>) => number | undefined,
+  eventMarkerHeight: number
+): EditTarget<EID, LID> | undefined => {
+  if (isNaN(position.x)) {
+    return undefined
+  }
+
+  const isOnTop = (a: TimelineEvent<EID, LID>, b: TimelineEvent<EID, LID>) =>
+    !!a.isSelected !== !!b.isSelected ? !!a.isSelected : duration(a) < duration(b)
+
+  return events.reduce<EditTarget<EID, LID> | undefined>((target, e) => {
+    const y = eventY(e)
+    if (!e.isEditable || y === undefined || Math.abs(position.y - y) > eventMarkerHeight / 2) {
+      return target
+    }
+    const startX = timeScale(e.startTimeMillis)!
+    const endX = e.endTimeMillis === undefined ? startX : timeScale(e.endTimeMillis)!
+    const halfWidth = e.endTimeMillis === undefined ? eventMarkerHeight / 2 : resizeHandleWidth / 2
+    if (position.x < startX - halfWidth || position.x > endX + halfWidth) {
+      return target
+    }
+    const variant: EditVariant =
+      e.endTimeMillis === undefined
+        ? 'move'
+        : Math.abs(position.x - startX) <= resizeHandleWidth / 2
+        ? 'resize start'
+        : Math.abs(position.x - endX) <= resizeHandleWidth / 2
+        ? 'resize end'
+        : 'move'
+    return target && !isOnTop(e, target.event) ? target : { event: e, variant }
+  }, undefined)
+}
+
+/**
+ * Moves or resizes an event by a given time delta (periods never end before they start), moving it to `laneId`.
+ */
+export const applyEdit = <EID, LID>(
+  { event, variant }: EditTarget<EID, LID>,
+  timeDelta: number,
+  laneId: LID
+): TimelineEvent<EID, LID> => {
+  switch (variant) {
+    case 'move':
+      return {
+        ...event,
+        laneId,
+        startTimeMillis: event.startTimeMillis + timeDelta,
+        endTimeMillis: event.endTimeMillis === undefined ? undefined : event.endTimeMillis + timeDelta,
+      }
+    case 'resize start':
+      return { ...event, startTimeMillis: Math.min(event.startTimeMillis + timeDelta, event.endTimeMillis!) }
+    case 'resize end':
+      return { ...event, endTimeMillis: Math.max(event.endTimeMillis! + timeDelta, event.startTimeMillis) }
+  }
+}
@@ -0,0 +1,66 @@
+import { Domain, TimelineEvent } from './model'
+
+export interface EventIndex<EID, LID> {
+  /** All events overlapping the given domain (boundaries inclusive), ordered by start time */
+  eventsInside: (domain: Domain) => ReadonlyArray<TimelineEvent<EID, LID>>
+}
+
+const endTime = <EID, LID>(e: TimelineEvent<EID, LID>) =>
+  e.endTimeMillis === undefined ? e.startTimeMillis : e.endTimeMillis
+
+/**
+ * Interval index, which answers domain queries in O(log n + k) instead of testing every single event.
+ *
+ * Events are sorted by start time and interpreted as an implicit balanced binary tree (the middle element of each index
+ * range being the root of the corresponding sub-tree). Every node knows the maximum end time of its sub-tree, which
+ * allows to skip entire sub-trees ending before the queried domain.
+ */
+export const createEventIndex = <EID, LID>(events: ReadonlyArray<TimelineEvent<EID, LID>>): EventIndex<EID, LID> => {
+  const sortedEvents = [...events].sort((a, b) => a.startTimeMillis - b.startTimeMillis)
+  const maxEndTimes = new Array<number>(sortedEvents.length)
+
+  const buildMaxEndTimes = (from: number, to: number): number => {
+    if (from >= to) {
+      return -Infinity
+    }
+    const middle = (from + to) >>> 1
+    maxEndTimes[middle] = Math.max(
+      endTime(sortedEvents[middle]),
+      buildMaxEndTimes(from, middle),
+      buildMaxEndTimes(middle + 1, to)
+    )
+    return maxEndTimes[middle]
+  }
+
+  buildMaxEndTimes(0, sortedEvents.length)
+
+  const eventsInside = ([domainStart, domainEnd]: Domain) => {
+    const result: Array<TimelineEvent<EID, LID>> = []
+
+    const collect = (from: number, to: number) => {
+      if (from >= to) {
+        return
+      }
+      const middle = (from + to) >>> 1
+      if (maxEndTimes[middle] < domainStart) {
+        // nothing in this sub-tree reaches into the domain
+        return
+      }
+      collect(from, middle)
+      const event = sortedEvents[middle]
+      if (event.startTimeMillis > domainEnd) {
+        // neither this event nor any event to its right starts inside the domain
+        return
+      }
+      if (endTime(event) >= domainStart) {
+        result.push(event)
+      }
+      collect(middle + 1, to)
+    }
+
+    collect(0, sortedEvents.length)
+    return result
+  }
+
+  return { eventsInside }
+}
@@ -0,0 +1,34 @@
+import { TimelineEvent } from './model'
+
+export interface EventStacking<EID, LID> {
+  /** Sub-row (inside its lane) of every event */
+  subRows: ReadonlyMap<EID, number>
+  /** Number of sub-rows needed per lane */
+  subRowCounts: ReadonlyMap<LID, number>
+}
+
+/**
+ * Packs overlapping events of each lane into sub-rows (Gantt-style), such that no two events of the same sub-row
+ * overlap in time. Events are assigned to the first sub-row which is free at their start time.
+ */
+export const calcEventStacking = <EID, LID>(
+  events: ReadonlyArray<TimelineEvent<EID, LID>>
+): EventStacking<EID, LID> => {
+  const subRows = new Map<EID, number>()
+  const subRowCounts = new Map<LID, number>()
+  // end time of the last event in each sub-row, per lane
+  const subRowEnds = new Map<LID, number[]>()
+
+  const sortedEvents = [...events].sort((a, b) => a.startTimeMillis - b.startTimeMillis)
+  sortedEvents.forEach((e) => {
+    const ends = subRowEnds.get(e.laneId) || []
+    const freeSubRow = ends.findIndex((end) => end < e.startTimeMillis)
+    const subRow = freeSubRow < 0 ? ends.length : freeSubRow
+    ends[subRow] = e.endTimeMillis === undefined ? e.startTimeMillis : e.endTimeMillis
+    subRowEnds.set(e.laneId, ends)
+    subRows.set(e.eventId, subRow)
+    subRowCounts.set(e.laneId, ends.length)
+  })
+
+  return { subRows, subRowCounts }
+}
@@ -0,0 +1,105 @@
+import * as React from 'react'
+import { scaleLinear } from 'd3-scale'
+import { Tooltip } from 'react-svg-tooltip'
+import { SvgCoordinates } from './MouseAwareSvg'
+import { useTimelineTheme } from './TimelineTheme'
+
+interface TooltipProps {
+  type: { singleEventX: number } | 'period'
+  y: number
+  parentWidth: number
+  text: string
+}
+
+interface EventTooltipProps extends TooltipProps {
+  triggerRef: React.RefObject<SVGElement>
+}
+
+export const EventTooltip = ({ triggerRef, ...props }: EventTooltipProps) => (
+  <Tooltip triggerRef={triggerRef}>
+    {(xOffset, yOffset) => <TooltipContent {...props} xOffset={xOffset} yOffset={yOffset} />}
+  </Tooltip>
+)
+
+interface StaticEventTooltipProps extends TooltipProps {
+  mousePosition: SvgCoordinates
+}
+
+/**
+ * Tooltip at a given mouse position, for marks which are not backed by SVG elements (and can thus not act as trigger).
+ */
+export const StaticEventTooltip = ({ mousePosition, ...props }: StaticEventTooltipProps) => (
+  <g transform={`translate(${mousePosition.x}, ${mousePosition.y})`}>
+    <TooltipContent {...props} xOffset={mousePosition.x} yOffset={mousePosition.y} />
+  </g>
+)
+
+interface TooltipContentProps extends TooltipProps {
+  xOffset: number
+  yOffset: number
+}
+
+const TooltipContent = ({ type, y, parentWidth, text, xOffset, yOffset }: TooltipContentProps) => {
+  const theme = useTimelineTheme()
+  const width = type === 'period' ? 180 : 100
+  const height = 30
+
+  // tooltip follows the mouse, these offsets can be used to counteract this behavior
+
+  // single events: tooltip does NOT follow the mouse (to have a less jumpy user experience)
+  // event periods: tooltip does follow the mouse (because rectangular periods can easily get off screen)
+  const tooltipX = type === 'period' ? 0 : type.singleEventX - xOffset
+
+  const tooltipYPadding = 12
+  const tooltipY = y - yOffset - height - tooltipYPadding // don't follow mouse
+
+  // determines how the rectangular tooltip area is offset to the left/right of the arrow
+  // the closer to the left edge, the more the rect is shifted to the right (same for right edge)
+  const safetyMargin = 15
+  const tooltipOffset = scaleLinear()
+    .domain([0, parentWidth])
+    .range([safetyMargin, width - safetyMargin])
+
+  const arrowDimension = 20
+
+  return (
+    <g>
+      <svg x={tooltipX - tooltipOffset(xOffset)!} y={tooltipY - arrowDimension / 2} width={width} height={height}>
+        <rect width="100%" height="100%" rx={3} ry={3} fill={theme.tooltip.backgroundColor} strokeWidth={0} />
+        <text
+          x="50%"
+          y="50%"
+          fill={theme.tooltip.textColor}
+          dominantBaseline={'middle'}
+          textAnchor={'middle'}
+          fontFamily={theme.base.fontFamily}
+          fontSize={theme.tooltip.fontSize}
+        >
+          {text}
+        </text>
+      </svg>
+      <ArrowDown tipX={tooltipX} baseY={tooltipY} dimension={arrowDimension} color={theme.tooltip.backgroundColor} />)
+    </g>
+  )
+}
+
+interface ArrowDownProps {
+  tipX: number
+  baseY: number
+  dimension: number
+  color: string
+}
+
+const ArrowDown = ({ tipX, baseY, dimension, color }: ArrowDownProps) => {
+  return (
+    <svg
+      x={tipX - dimension / 2}
+      y={baseY + dimension / 2 + 5} // the triangle is only of height 5
+      viewBox={`0 0 10 10`} // path is expressed for a 10x10 square
+      width={dimension}
+      height={dimension}
+    >
+      <path fill={color} strokeWidth={0} d={`M0 2.5 l 5 5 5-5z`} />
+    </svg>
+  )
+}
@@ -1,96 +1,295 @@
 import * as React from 'react'
+import { useCallback, useMemo } from 'react'
 import { Marks } from './Marks'
-import { scaleBand, ScaleLinear } from 'd3-scale'
-import { Theme } from '@material-ui/core'
-import { EventComponentFactory, TimelineEvent, TimelineLane } from './model'
+import { ScaleLinear } from 'd3-scale'
+import { Domain, EventAggregation, EventComponentFactory, RenderMode, TimelineEvent, TimelineLane } from './model'
 import { Axis } from './Axis'
-import { defaultLaneColor } from './shared'
-import makeStyles from '@material-ui/core/styles/makeStyles'
+import { range } from './shared'
+import { CanvasMarks } from './CanvasMarks'
+import { SvgCoordinates } from './MouseAwareSvg'
+import { AggregatedMarks, binEvents, isAggregationNeeded } from './Aggregation'
+import { calcEventMarkerHeight, LaneLayout } from './LaneLayout'
+import { EventStacking } from './EventStacking'
+import { LaneHierarchy } from './LaneHierarchy'
+import { TimelineTheme, useTimelineTheme } from './TimelineTheme'
 
-const useStyles = makeStyles((theme: Theme) => ({
+const laneStyles = (theme: TimelineTheme) => ({
   conceptLabel: {
-    fontFamily: theme.typography.fontFamily,
-    fontWeight: 600,
-    opacity: 0.4
-  }
-}))
+    fontFamily: theme.base.fontFamily,
+    fontWeight: theme.lane.labelFontWeight,
+    opacity: theme.lane.labelOpacity,
+  },
+  groupLabel: {
+    fontFamily: theme.base.fontFamily,
+    fontWeight: theme.lane.labelFontWeight,
+    opacity: theme.lane.labelOpacity,
+    cursor: 'pointer',
+  },
+  scrollbar: {
+    fill: theme.grid.labelColor,
+    opacity: 0.3,
+    pointerEvents: 'none' as const,
+  },
+})
+
+const scrollbarWidth = 6
 
 interface Props<EID, LID> {
   mouseCursor: React.ReactNode
+  mousePosition: SvgCoordinates
+  renderMode: RenderMode
+  width: number
   height: number
   events: ReadonlyArray<TimelineEvent<EID, LID>>
   timeScale: ScaleLinear<number, number>
   eventMarkerHeight?: number
   lanes: ReadonlyArray<TimelineLane<LID>>
+  /** Vertical positions of lanes, relative to the top of the (scrollable) lane area */
+  layout: LaneLayout<LID>
+  /** Vertical scroll offset of the lane area (if the layout is higher than `height`) */
+  scrollTop: number
+  /** Nesting of lanes, all lanes are top-level lanes if undefined */
+  laneHierarchy?: LaneHierarchy<LID>
+  onLaneLabelClick?: (laneId: LID) => void
+  /** Sub-rows of overlapping events, all events are drawn in a single row per lane if undefined */
+  stacking?: EventStacking<EID, LID>
   eventComponent?: EventComponentFactory<EID, LID>
   onEventHover?: (eventId: EID) => void
   onEventUnhover?: (eventId: EID) => void
-  onEventClick?: (eventId: EID) => void
+  onEventClick?: (eventId: EID, e?: React.MouseEvent) => void
+  eventAggregation: EventAggregation
+  aggregationThreshold: number
+  onAggregateHover: () => void
+  onAggregateUnhover: () => void
+  onAggregateClick: (eventDomain: Domain) => void
 }
 
 export const ExpandedMarks = <EID extends string, LID extends string>({
   mouseCursor,
+  mousePosition,
+  renderMode,
+  width,
   height,
   events,
   lanes,
+  layout,
+  scrollTop,
+  laneHierarchy,
+  onLaneLabelClick,
+  stacking,
   timeScale,
   eventComponent,
   onEventHover,
   onEventUnhover,
-  onEventClick
+  onEventClick,
+  eventAggregation,
+  aggregationThreshold,
+  onAggregateHover,
+  onAggregateUnhover,
+  onAggregateClick,
 }: Props<EID, LID>) => {
-  const classes = useStyles()
-
-  const yScale = scaleBand()
-    .domain(lanes.map(l => l.laneId))
-    .range([0, height])
-    .paddingInner(0.1)
-    .paddingOuter(0.8)
-
-  const fontSize = 0.8 * yScale.bandwidth()
-
-  const axes = lanes.map((lane: TimelineLane<LID>) => {
-    const labelXOffset = 10
-    const labelYOffset = -0.15 * yScale.bandwidth()
-    const y = yScale(lane.laneId)!
-    return (
-      <g key={`axis-${lane.laneId}`}>
-        <Axis y={y} />
+  const theme = useTimelineTheme()
+  const classes = laneStyles(theme)
+
+  const subRow = useCallback((e: TimelineEvent<EID, LID>) => (stacking ? stacking.subRows.get(e.eventId) || 0 : 0), [
+    stacking,
+  ])
+
+  const subRowCount = (laneId: LID) => (stacking ? stacking.subRowCounts.get(laneId) || 1 : 1)
+
+  // only lanes (at least partially) inside the viewport are rendered
+  const isLaneVisible = (laneId: LID) => {
+    const y = layout.laneY(laneId)!
+    const laneBottom = y + subRowCount(laneId) * layout.rowStep
+    return laneBottom >= scrollTop - layout.rowStep && y <= scrollTop + height + layout.rowStep
+  }
+  const visibleLanes = lanes.filter((lane) => isLaneVisible(lane.laneId))
+
+  // canvas marks are not translated, hence they are placed relative to the viewport
+  const eventY = useCallback(
+    (e: TimelineEvent<EID, LID>) => {
+      const y = layout.rowY(e.laneId, subRow(e))
+      return y === undefined || y < scrollTop - layout.rowStep || y > scrollTop + height + layout.rowStep
+        ? undefined
+        : y - scrollTop
+    },
+    [layout, subRow, scrollTop, height]
+  )
+
+  const eventMarkerHeight = calcEventMarkerHeight(layout, stacking !== undefined)
+
+  const fontSize = 0.8 * layout.bandwidth
+
+  // prevents clicks on group labels from being interpreted as zoom or pan
+  const stopPropagation = (e: React.PointerEvent) => e.stopPropagation()
+
+  const isGroup = (laneId: LID) => (laneHierarchy ? laneHierarchy.isGroup(laneId) : false)
+  const labelX = (laneId: LID) => 10 + (laneHierarchy ? laneHierarchy.depth(laneId) : 0) * fontSize
+  const labelY = (laneId: LID) => layout.laneY(laneId)! - 0.15 * layout.bandwidth
+
+  const axes = visibleLanes.map((lane: TimelineLane<LID>) => (
+    <g key={`axis-${lane.laneId}`}>
+      <Axis y={layout.laneY(lane.laneId)!} />
+      {!isGroup(lane.laneId) && (
         <text
-          className={classes.conceptLabel}
+          style={classes.conceptLabel}
           fontSize={fontSize}
-          x={labelXOffset}
-          y={y + labelYOffset}
-          fill={lane.color || defaultLaneColor}
+          x={labelX(lane.laneId)}
+          y={labelY(lane.laneId)}
+          fill={lane.color || theme.lane.labelColor}
         >
           {lane.label}
         </text>
-      </g>
+      )}
+    </g>
+  ))
+
+  // group labels can be clicked, i.e. they are drawn on top of the marks (and the mouse area of canvas marks)
+  const groupLabels = visibleLanes
+    .filter((lane) => isGroup(lane.laneId))
+    .map((lane: TimelineLane<LID>) => {
+      const isExpanded = laneHierarchy ? laneHierarchy.isExpanded(lane.laneId) : false
+      return (
+        <text
+          key={`group-label-${lane.laneId}`}
+          style={classes.groupLabel}
+          fontSize={fontSize}
+          x={labelX(lane.laneId)}
+          y={labelY(lane.laneId)}
+          fill={lane.color || theme.lane.labelColor}
+          onPointerDown={stopPropagation}
+          onPointerUp={stopPropagation}
+          onClick={() => onLaneLabelClick && onLaneLabelClick(lane.laneId)}
+        >
+          {`${isExpanded ? '\u25BE' : '\u25B8'} ${lane.label}`}
+        </text>
+      )
+    })
+
+  // binning doesn't depend on the mouse position or scrolling, i.e. is only redone for new events or a new time scale
+  const laneBins = useMemo(() => {
+    const eventsByLane = new Map<LID, Array<TimelineEvent<EID, LID>>>()
+    events.forEach((e) => {
+      const laneEvents = eventsByLane.get(e.laneId)
+      if (laneEvents) {
+        laneEvents.push(e)
+      } else {
+        eventsByLane.set(e.laneId, [e])
+      }
+    })
+    return new Map(
+      lanes.map((lane) => {
+        const laneSpecificEvents = eventsByLane.get(lane.laneId) || []
+        const buckets = eventAggregation === 'none' ? [] : binEvents(laneSpecificEvents, timeScale)
+        return [lane.laneId, { events: laneSpecificEvents, buckets }]
+      })
     )
+  }, [events, lanes, timeScale, eventAggregation])
+
+  const isLaneAggregated = useCallback(
+    (laneId: LID) => isAggregationNeeded(laneBins.get(laneId)!.buckets, eventAggregation, aggregationThreshold),
+    [laneBins, eventAggregation, aggregationThreshold]
+  )
+
+  // canvas marks get the events of all lanes (also those outside of the viewport, see `eventY`), such that scrolling
+  // doesn't re-index and redraw them
+  const canvasEvents = useMemo(() => {
+    const individualLanes = lanes.filter((lane) => !isLaneAggregated(lane.laneId))
+    return individualLanes.length === lanes.length
+      ? events
+      : individualLanes.reduce<ReadonlyArray<TimelineEvent<EID, LID>>>(
+          (all, lane) => all.concat(laneBins.get(lane.laneId)!.events),
+          []
+        )
+  }, [events, lanes, laneBins, isLaneAggregated])
+
+  // dense lanes are aggregated, all other lanes show individual marks
+  const laneMarks = visibleLanes.map((lane: TimelineLane<LID>) => {
+    const { events: laneSpecificEvents, buckets } = laneBins.get(lane.laneId)!
+    return {
+      lane,
+      events: laneSpecificEvents,
+      buckets,
+      isAggregated: isLaneAggregated(lane.laneId),
+    }
   })
 
-  const marks = lanes.map((lane: TimelineLane<LID>) => {
-    const laneSpecificEvents = events.filter(e => e.laneId === lane.laneId)
-    return (
-      <g key={`marks-${lane.laneId}`}>
-        <Marks
-          events={laneSpecificEvents}
+  const aggregatedMarks = laneMarks
+    .filter((l) => l.isAggregated)
+    .map(({ lane, buckets }) => (
+      <g key={`aggregates-${lane.laneId}`}>
+        <AggregatedMarks
+          buckets={buckets}
+          aggregation={eventAggregation}
           timeScale={timeScale}
-          y={yScale(lane.laneId)!}
-          eventComponent={eventComponent}
-          onEventHover={onEventHover}
-          onEventUnhover={onEventUnhover}
-          onEventClick={onEventClick}
+          y={layout.laneY(lane.laneId)!}
+          maxBarHeight={0.8 * layout.bandwidth}
+          onAggregateHover={onAggregateHover}
+          onAggregateUnhover={onAggregateUnhover}
+          onAggregateClick={onAggregateClick}
         />
       </g>
+    ))
+
+  const individualMarks = laneMarks.filter((l) => !l.isAggregated)
+
+  const marks =
+    renderMode === 'canvas' ? (
+      <CanvasMarks
+        width={width}
+        height={height}
+        events={canvasEvents}
+        timeScale={timeScale}
+        mousePosition={mousePosition}
+        eventY={eventY}
+        eventMarkerHeight={eventMarkerHeight}
+        onEventHover={onEventHover}
+        onEventUnhover={onEventUnhover}
+        onEventClick={onEventClick}
+      />
+    ) : (
+      individualMarks.map(({ lane, events: laneSpecificEvents }) => {
+        const rowCount = subRowCount(lane.laneId)
+        return range(0, rowCount).map((row) => (
+          <g key={`marks-${lane.laneId}-${row}`}>
+            <Marks
+              events={rowCount === 1 ? laneSpecificEvents : laneSpecificEvents.filter((e) => subRow(e) === row)}
+              timeScale={timeScale}
+              y={layout.rowY(lane.laneId, row)!}
+              eventMarkerHeight={eventMarkerHeight}
+              eventComponent={eventComponent}
+              onEventHover={onEventHover}
+              onEventUnhover={onEventUnhover}
+              onEventClick={onEventClick}
+            />
+          </g>
+        ))
+      })
     )
-  })
 
+  const isScrollable = layout.contentHeight > height
+  const scrollbarHeight = (height / layout.contentHeight) * height
+  const scrollbar = isScrollable && (
+    <rect
+      style={classes.scrollbar}
+      x={width - scrollbarWidth}
+      y={(scrollTop / layout.contentHeight) * height}
+      width={scrollbarWidth}
+      height={scrollbarHeight}
+      rx={scrollbarWidth / 2}
+    />
+  )
+
+  // the mouse cursor stays in place while the lanes scroll (aggregates and group labels are drawn on top of the area
+  // receiving the mouse events of canvas marks)
   return (
     <g>
-      {axes}
+      <g transform={`translate(0, ${-scrollTop})`}>{axes}</g>
       {mouseCursor}
-      {marks}
+      {renderMode === 'canvas' ? marks : <g transform={`translate(0, ${-scrollTop})`}>{marks}</g>}
+      <g transform={`translate(0, ${-scrollTop})`}>{aggregatedMarks}</g>
+      <g transform={`translate(0, ${-scrollTop})`}>{groupLabels}</g>
+      {scrollbar}
     </g>
   )
 }
@@ -0,0 +1,37 @@
+import * as React from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { StaticTimeline, StaticTimelineProps } from './StaticTimeline'
+
+export type TimelineExportProps<EID, LID> = StaticTimelineProps<EID, LID>
+
+/**
+ * Self-contained SVG document of a timeline at a given domain, with all styles inlined (e.g. for reports).
+ *
+ * Unlike the interactive timeline, the theme must be passed explicitly (there is no enclosing theme provider).
+ */
+export const exportSvg = <EID extends string, LID extends string>(props: TimelineExportProps<EID, LID>): string =>
+  renderToStaticMarkup(<StaticTimeline {...props} />)
+
+/** Rasterizes `exportSvg` (browsers only), `pixelRatio` allows for higher-resolution images */
+export const exportPng = <EID extends string, LID extends string>(
+  props: TimelineExportProps<EID, LID>,
+  pixelRatio: number = 1
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = image.width * pixelRatio
+      canvas.height = image.height * pixelRatio
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Canvas rendering is not supported'))
+        return
+      }
+      context.scale(pixelRatio, pixelRatio)
+      context.drawImage(image, 0, 0)
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+    }
+    image.onerror = () => reject(new Error('SVG could not be rasterized'))
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(exportSvg(props))}`
+  })
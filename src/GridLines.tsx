@@ -1,36 +1,90 @@
 import * as React from 'react'
 import { ScaleLinear } from 'd3-scale'
-import { Theme } from '@material-ui/core'
-import { monthDuration, nextSmallerZoomScale, weekDuration, yearDuration } from './ZoomScale'
-import { addMonths, addWeeks, endOfMonth, endOfWeek, isBefore, isEqual, startOfWeek } from 'date-fns'
+import {
+  dayDuration,
+  hourDuration,
+  minuteDuration,
+  monthDuration,
+  nextSmallerZoomLevel,
+  nextSmallerZoomScale,
+  secondDuration,
+  weekDuration,
+  yearDuration,
+  ZoomLadder,
+  zoomScaleAtMost,
+} from './ZoomScale'
+import { format, Locale } from 'date-fns'
 import { Domain } from './model'
-import makeStyles from '@material-ui/core/styles/makeStyles'
-import useTheme from '@material-ui/core/styles/useTheme'
 import { range } from './shared'
+import { startOfWallClockWeek, TimeZoneConversion, timeZoneConversion } from './TimeZone'
+import { TimelineTheme, useTimelineTheme } from './TimelineTheme'
 
 interface Props {
   height: number
   domain: Domain
   timeScale: ScaleLinear<number, number>
+  /** IANA time zone name, the browser's time zone if undefined */
+  timeZone?: string
+  /** Locale of month/day names and week start, English (with weeks starting on Sunday) if undefined */
+  locale?: Locale
+  /** The grid matches the next smaller zoom level (as far as the built-in grids allow) */
+  zoomLadder?: ZoomLadder
 }
 
-const gridLineStyle = (theme: Theme) => ({
+interface ViewProps {
+  height: number
+  domain: Domain
+  timeScale: ScaleLinear<number, number>
+  zone: TimeZoneConversion
+  locale?: Locale
+}
+
+interface GridStyles {
+  line: React.CSSProperties
+  label: React.CSSProperties
+}
+
+/** Formats the calendar date of a wall-clock timestamp (but not its time of day) using a date-fns pattern */
+const formatWallClockDate = (wallClockMs: number, pattern: string, locale?: Locale) => {
+  const date = new Date(wallClockMs)
+  // noon of that date in the browser's time zone (whose DST transitions happen at night) has the same calendar date
+  return format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 12), pattern, { locale })
+}
+
+/** Formats the time of day of a wall-clock timestamp as "HH:mm" or "HH:mm:ss" */
+const formatWallClockTime = (wallClockMs: number, withSeconds = false) => {
+  const date = new Date(wallClockMs)
+  const fields = [date.getUTCHours(), date.getUTCMinutes(), ...(withSeconds ? [date.getUTCSeconds()] : [])]
+  return fields.map((field) => (field < 10 ? `0${field}` : `${field}`)).join(':')
+}
+
+const gridLineStyle = (theme: TimelineTheme) => ({
   line: {
-    stroke: theme.palette.grey['500']
-  }
+    stroke: theme.grid.lineColor,
+  },
 })
 
-export const GridLines = ({ height, domain, timeScale }: Props) => {
-  const scale = nextSmallerZoomScale(domain)
+export const GridLines = ({ height, domain, timeScale, timeZone, locale, zoomLadder }: Props) => {
+  const smallerZoomLevel = zoomLadder && nextSmallerZoomLevel(domain, zoomLadder)
+  const scale = smallerZoomLevel ? zoomScaleAtMost(smallerZoomLevel.durationMillis) : nextSmallerZoomScale(domain)
+  const viewProps = { height, domain, timeScale, zone: timeZoneConversion(timeZone), locale }
   switch (scale) {
     case '10 years':
-      return <YearView height={height} domain={domain} timeScale={timeScale} showDecadesOnly={true} />
+      return <YearView {...viewProps} showDecadesOnly={true} />
     case '1 year':
-      return <YearView height={height} domain={domain} timeScale={timeScale} />
+      return <YearView {...viewProps} />
     case '1 month':
-      return <MonthView height={height} domain={domain} timeScale={timeScale} />
+      return <MonthView {...viewProps} />
+    case '1 week':
+      return <MonthView {...viewProps} showWeekStripes={true} />
+    case '1 day':
+      return <TimeUnitView {...viewProps} timeUnit={dayUnit} />
+    case '1 hour':
+      return <TimeUnitView {...viewProps} timeUnit={hourUnit} />
+    case '1 minute':
+      return <TimeUnitView {...viewProps} timeUnit={minuteUnit} />
     default:
-      return <MonthView height={height} domain={domain} timeScale={timeScale} showWeekStripes={true} />
+      return <TimeUnitView {...viewProps} timeUnit={secondUnit} />
   }
 }
 
@@ -38,34 +92,34 @@ export const GridLines = ({ height, domain, timeScale }: Props) => {
 /*  Year
 /* ·················································································································· */
 
-const useYearViewStyles = makeStyles((theme: Theme) => ({
+const yearViewStyles = (theme: TimelineTheme): GridStyles => ({
   ...gridLineStyle(theme),
   label: {
-    fill: theme.palette.text.secondary,
-    opacity: 0.5,
-    fontFamily: theme.typography.caption.fontFamily,
+    fill: theme.grid.labelColor,
+    opacity: theme.grid.labelOpacity,
+    fontFamily: theme.base.fontFamily,
     fontWeight: 'bold',
     textAnchor: 'middle',
-    cursor: 'default'
-  }
-}))
+    cursor: 'default',
+  },
+})
 
-interface YearViewProps extends Props {
+interface YearViewProps extends ViewProps {
   showDecadesOnly?: boolean
 }
 
-const YearView = ({ height, domain, timeScale, showDecadesOnly = false }: YearViewProps) => {
-  const classes = useYearViewStyles()
+const YearView = ({ height, domain, timeScale, zone, showDecadesOnly = false }: YearViewProps) => {
+  const classes = yearViewStyles(useTimelineTheme())
 
   // not calendar-based (and thus not accounting for leap years), but good enough for horizontal placement of labels
   const yearWidth = yearDuration
 
-  const startYear = new Date(domain[0]).getFullYear()
-  const endYear = new Date(domain[1]).getFullYear()
+  const startYear = new Date(zone.toWallClock(domain[0])).getUTCFullYear()
+  const endYear = new Date(zone.toWallClock(domain[1])).getUTCFullYear()
 
   // -1/+1 to get starting/ending lines, additional +1 because range end is exclusive
-  const lines = range(startYear - 1, endYear + 2).map(year => {
-    const yearTimestamp = new Date(year, 0, 1).valueOf()
+  const lines = range(startYear - 1, endYear + 2).map((year) => {
+    const yearTimestamp = zone.fromWallClock(Date.UTC(year, 0, 1))
     const x = timeScale(yearTimestamp)!
     const xMidYear = timeScale(yearTimestamp + yearWidth / 2)!
     const width = 2 * (xMidYear - x)
@@ -73,9 +127,9 @@ const YearView = ({ height, domain, timeScale, showDecadesOnly = false }: YearVi
     const isDecade = year % 10 === 0
     return (
       <g key={year}>
-        <line className={classes.line} x1={x} y1={0} x2={x} y2={height} />
+        <line style={classes.line} x1={x} y1={0} x2={x} y2={height} />
         <text
-          className={classes.label}
+          style={classes.label}
           x={xMidYear}
           y="90%"
           fontSize={fontSize}
@@ -94,39 +148,38 @@ const YearView = ({ height, domain, timeScale, showDecadesOnly = false }: YearVi
 /*  Month
 /* ·················································································································· */
 
-const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
 const monthViewLabelFontSize = 18
 
-const useMonthViewStyles = makeStyles((theme: Theme) => ({
+const monthViewStyles = (theme: TimelineTheme): GridStyles => ({
   ...gridLineStyle(theme),
   label: {
-    fill: theme.palette.text.secondary,
-    opacity: 0.5,
-    fontFamily: theme.typography.caption.fontFamily,
+    fill: theme.grid.labelColor,
+    opacity: theme.grid.labelOpacity,
+    fontFamily: theme.base.fontFamily,
     fontSize: monthViewLabelFontSize,
     fontWeight: 'bold',
     textAnchor: 'middle',
-    cursor: 'default'
-  }
-}))
+    cursor: 'default',
+  },
+})
 
-interface MonthViewProps extends Props {
+interface MonthViewProps extends ViewProps {
   showWeekStripes?: boolean
 }
 
-const MonthView = ({ height, domain, timeScale, showWeekStripes = false }: MonthViewProps) => {
-  const classes = useMonthViewStyles()
+const MonthView = ({ height, domain, timeScale, zone, locale, showWeekStripes = false }: MonthViewProps) => {
+  const classes = monthViewStyles(useTimelineTheme())
 
   // not calendar-based (fixed 30 days), but good enough for horizontal placement of labels
   const monthWidth = monthDuration
 
-  const startDate = new Date(domain[0])
-  const startYear = startDate.getFullYear()
-  const startMonth = startDate.getMonth()
+  const startDate = new Date(zone.toWallClock(domain[0]))
+  const startYear = startDate.getUTCFullYear()
+  const startMonth = startDate.getUTCMonth()
 
-  const endDate = new Date(domain[1])
-  const endYear = endDate.getFullYear()
-  const endMonth = endDate.getMonth()
+  const endDate = new Date(zone.toWallClock(domain[1]))
+  const endYear = endDate.getUTCFullYear()
+  const endMonth = endDate.getUTCMonth()
 
   // handle year boundary: iterate further than month 11 (and correct with % 12 again later)
   const rangeEndMonth = startYear === endYear ? endMonth : endMonth + 12
@@ -135,21 +188,21 @@ const MonthView = ({ height, domain, timeScale, showWeekStripes = false }: Month
   const lines = monthNumbers.map((rawMonth, index) => {
     const year = rawMonth < 12 ? startYear : endYear
     const month = rawMonth % 12
-    const monthDate = new Date(year, month, 1)
-    const monthTimestamp = monthDate.valueOf()
-    const monthName = monthNames[month]
+    const monthStart = Date.UTC(year, month, 1)
+    const monthTimestamp = zone.fromWallClock(monthStart)
+    const monthName = formatWallClockDate(monthStart, 'MMM', locale)
     const x = timeScale(monthTimestamp)!
     const xMidMonth = timeScale(monthTimestamp + monthWidth / 2)
-    const xLast = timeScale(addMonths(monthTimestamp, 1))!
+    const xLast = timeScale(zone.fromWallClock(Date.UTC(year, month + 1, 1)))!
     const isLast = index === monthNumbers.length - 1
     return (
       <g key={rawMonth}>
-        {showWeekStripes && <WeekStripes monthStart={monthTimestamp} timeScale={timeScale} />}
+        {showWeekStripes && <WeekStripes monthStart={monthStart} timeScale={timeScale} zone={zone} locale={locale} />}
         <MonthLine x={x} month={month} />
-        <text className={classes.label} x={xMidMonth} y={height - 1.5 * monthViewLabelFontSize}>
+        <text style={classes.label} x={xMidMonth} y={height - 1.5 * monthViewLabelFontSize}>
           {monthName}
         </text>
-        <text className={classes.label} x={xMidMonth} y={height - 0.5 * monthViewLabelFontSize}>
+        <text style={classes.label} x={xMidMonth} y={height - 0.5 * monthViewLabelFontSize}>
           {year}
         </text>
         {isLast && <MonthLine x={xLast} month={month} />}
@@ -166,10 +219,10 @@ interface MonthLineProps {
 }
 
 const MonthLine = ({ x, month }: MonthLineProps) => {
-  const classes = useMonthViewStyles()
+  const classes = monthViewStyles(useTimelineTheme())
   return (
     <line
-      className={classes.line}
+      style={classes.line}
       x1={x}
       y1={0}
       x2={x}
@@ -184,23 +237,29 @@ const MonthLine = ({ x, month }: MonthLineProps) => {
 /* ·················································································································· */
 
 interface WeekStripesProps {
+  /** Wall-clock start of the month */
   monthStart: number
   timeScale: ScaleLinear<number, number>
+  zone: TimeZoneConversion
+  locale?: Locale
 }
 
-const WeekStripes = ({ monthStart, timeScale }: WeekStripesProps) => {
-  const theme: Theme = useTheme()
-  const monthEnd = endOfMonth(monthStart)
-  const lines = range(1, 6).map(weekNumber => {
-    const weekStart = startOfWeek(addWeeks(monthStart, weekNumber))
+const WeekStripes = ({ monthStart, timeScale, zone, locale }: WeekStripesProps) => {
+  const theme = useTimelineTheme()
+  // the locale determines the first day of the week
+  const weekStartsOn = locale?.options?.weekStartsOn
+  const monthDate = new Date(monthStart)
+  const monthEnd = Date.UTC(monthDate.getUTCFullYear(), monthDate.getUTCMonth() + 1, 1) - 1
+  const lines = range(1, 6).map((weekNumber) => {
+    const weekStart = startOfWallClockWeek(monthStart + weekNumber * weekDuration, weekStartsOn)
     const key = weekNumber
-    if (isEqual(weekStart, monthEnd) || isBefore(weekStart, monthEnd)) {
-      const x = timeScale(weekStart.valueOf())!
-      const atEndOfWeek = endOfWeek(addWeeks(monthStart, weekNumber))
-      const width = timeScale(atEndOfWeek.valueOf())! - x
-      const weekSinceEpoch = Math.floor(weekStart.valueOf() / weekDuration)
-      const fill = weekSinceEpoch % 2 === 0 ? theme.palette.grey['200'] : 'transparent'
-      const opacity = theme.palette.type === 'light' ? 1 : 0.1
+    if (weekStart <= monthEnd) {
+      const x = timeScale(zone.fromWallClock(weekStart))!
+      const atEndOfWeek = weekStart + weekDuration - 1
+      const width = timeScale(zone.fromWallClock(atEndOfWeek))! - x
+      const weekSinceEpoch = Math.floor(weekStart / weekDuration)
+      const fill = weekSinceEpoch % 2 === 0 ? theme.grid.weekStripeColor : 'transparent'
+      const opacity = theme.grid.weekStripeOpacity
       return <rect key={key} fill={fill} opacity={opacity} x={x} y={0} width={width} height="100%" />
     } else {
       return <g key={key} />
@@ -209,3 +268,111 @@ const WeekStripes = ({ monthStart, timeScale }: WeekStripesProps) => {
 
   return <g>{lines}</g>
 }
+
+/* ·················································································································· */
+/*  Day, Hour, Minute, Second
+/* ·················································································································· */
+
+interface TimeUnit {
+  duration: number
+  // possible multiples of the unit between two lines (the smallest one leaving enough room for labels is used)
+  steps: ReadonlyArray<number>
+  // labels of wall-clock timestamps
+  label: (wallClockMs: number, locale?: Locale) => string
+  subLabel: (wallClockMs: number, locale?: Locale) => string
+  // boundaries of the next bigger unit are emphasized
+  isBoundary: (wallClockMs: number) => boolean
+}
+
+const dayUnit: TimeUnit = {
+  duration: dayDuration,
+  steps: [1],
+  label: (wallClockMs, locale) => formatWallClockDate(wallClockMs, 'EEE d', locale),
+  subLabel: (wallClockMs, locale) => formatWallClockDate(wallClockMs, 'MMM yyyy', locale),
+  isBoundary: (wallClockMs) => new Date(wallClockMs).getUTCDate() === 1,
+}
+
+const hourUnit: TimeUnit = {
+  duration: hourDuration,
+  steps: [1, 3, 6, 12],
+  label: (wallClockMs) => formatWallClockTime(wallClockMs),
+  subLabel: (wallClockMs, locale) => formatWallClockDate(wallClockMs, 'd MMM yyyy', locale),
+  isBoundary: (wallClockMs) => new Date(wallClockMs).getUTCHours() === 0,
+}
+
+const minuteUnit: TimeUnit = {
+  duration: minuteDuration,
+  steps: [1, 5, 15, 30],
+  label: (wallClockMs) => formatWallClockTime(wallClockMs),
+  subLabel: (wallClockMs, locale) => formatWallClockDate(wallClockMs, 'd MMM yyyy', locale),
+  isBoundary: (wallClockMs) => new Date(wallClockMs).getUTCMinutes() === 0,
+}
+
+const secondUnit: TimeUnit = {
+  duration: secondDuration,
+  steps: [1, 5, 15, 30],
+  label: (wallClockMs) => formatWallClockTime(wallClockMs, true),
+  subLabel: (wallClockMs, locale) => formatWallClockDate(wallClockMs, 'd MMM yyyy', locale),
+  isBoundary: (wallClockMs) => new Date(wallClockMs).getUTCSeconds() === 0,
+}
+
+const minLabelWidth = 80
+
+interface TimeUnitViewProps extends ViewProps {
+  timeUnit: TimeUnit
+}
+
+const TimeUnitView = ({ height, domain, timeScale, zone, locale, timeUnit }: TimeUnitViewProps) => {
+  const classes = monthViewStyles(useTimelineTheme())
+
+  const pixelsPerUnit = timeScale(timeUnit.duration)! - timeScale(0)!
+  const step =
+    timeUnit.steps.find((s) => s * pixelsPerUnit >= minLabelWidth) || timeUnit.steps[timeUnit.steps.length - 1]
+
+  // start one step before the domain to get a starting line, end one step after the domain to get an ending line
+  // (as all units evenly divide a wall-clock day, lines are multiples of the step since the epoch)
+  const stepDuration = step * timeUnit.duration
+  const dates: number[] = []
+  const firstDate = Math.floor(zone.toWallClock(domain[0]) / stepDuration) * stepDuration
+  for (let date = firstDate; zone.fromWallClock(date) <= domain[1]; date += stepDuration) {
+    // wall-clock times skipped by a DST transition would coincide with the next line
+    if (zone.toWallClock(zone.fromWallClock(date)) === date) {
+      dates.push(date)
+    }
+  }
+  if (dates.length === 0) {
+    return <g />
+  }
+  dates.push(dates[dates.length - 1] + stepDuration)
+
+  const lines = dates.map((date, index) => {
+    const x = timeScale(zone.fromWallClock(date))!
+    const xNext = timeScale(zone.fromWallClock(date + stepDuration))!
+    const xMid = (x + xNext) / 2
+    const isLast = index === dates.length - 1
+    return (
+      <g key={date}>
+        <line
+          style={classes.line}
+          x1={x}
+          y1={0}
+          x2={x}
+          y2="100%"
+          strokeWidth={timeUnit.isBoundary(date) ? 2 : 1} // slightly fatter boundary of next bigger unit
+        />
+        {!isLast && (
+          <g>
+            <text style={classes.label} x={xMid} y={height - 1.5 * monthViewLabelFontSize}>
+              {timeUnit.label(date, locale)}
+            </text>
+            <text style={classes.label} x={xMid} y={height - 0.5 * monthViewLabelFontSize}>
+              {timeUnit.subLabel(date, locale)}
+            </text>
+          </g>
+        )}
+      </g>
+    )
+  })
+
+  return <g>{lines}</g>
+}
@@ -1,12 +1,12 @@
 import React from 'react'
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Cursor, Domain } from './model'
 import { noOp } from './shared'
-import { SvgCoordinates } from './MouseAwareSvg'
+import { mapToSvgCoordinates, SvgCoordinates } from './MouseAwareSvg'
+import { EditVariant } from './EventEditing'
 
 export interface Props {
   mousePosition: SvgCoordinates
-  isAnimationInProgress: boolean
   isZoomInPossible: boolean
   isZoomOutPossible: boolean
   onHover: (mousePositionX: number) => void
@@ -14,10 +14,31 @@ export interface Props {
   onZoomInCustom: (mouseStartX: number, mouseEndX: number) => void
   onZoomInCustomInProgress: (mouseStartX: number, mouseEndX: number) => void
   onZoomOut: () => void
+  /** Zooms continuously, such that the time at `anchorX` ends up at `targetX` (defaults to `anchorX`) */
+  onZoomByFactor: (zoomFactor: number, anchorX: number, targetX?: number) => void
   onZoomReset: () => void
   onTrimStart: (mousePosX: number) => void
   onTrimEnd: (mousePosX: number) => void
   onPan: (pixelDelta: number) => void
+  /** Scrolls the lanes vertically, undefined if all lanes fit into the available height */
+  onScroll?: (pixelDelta: number) => void
+  onPanToEdge: (edge: 'start' | 'end') => void
+  /** Moves the keyboard focus between events, returns `false` if there is no next/previous event to focus */
+  onEventFocusMove: (direction: 'next' | 'previous' | 'none') => boolean
+  onFocusedEventClick: () => void
+  /** Selects all events inside the rectangle spanned by two points, undefined if selection is not supported */
+  onLasso?: (start: SvgCoordinates, end: SvgCoordinates) => void
+  /** How the editable event under the cursor (if any) would be changed by dragging */
+  editVariant?: EditVariant
+  onEditStart: (position: SvgCoordinates) => void
+  onEdit: (anchor: SvgCoordinates, current: SvgCoordinates) => void
+  onEditEnd: () => void
+  /** Discards the edit, e.g. if the pointer is released outside of the timeline */
+  onEditCancel: () => void
+  /** Whether dragging (or clicking) sketches a new event instead of panning (or zooming) */
+  isSketchingPossible?: boolean
+  /** Called with the end of a sketched period, or without an end for point events (i.e. plain clicks) */
+  onSketchEnd: (anchor: SvgCoordinates, endX?: number) => void
   onInteractionEnd?: () => void
   children: (
     cursor: Cursor,
@@ -57,11 +78,29 @@ type InteractionModeRubberBand =
   | (Anchored & Readonly<{ type: 'rubber band' }>)
   | (InProgress & Readonly<{ type: 'rubber band' }>)
 
-interface InteractionModeAnimationInProgress {
-  type: 'animation in progress'
+interface InteractionModePinching {
+  type: 'pinching'
+  distance: number
+  centerX: number
 }
 
-const interactionModeAnimationInProgress: InteractionModeAnimationInProgress = { type: 'animation in progress' }
+interface InteractionModeLasso {
+  type: 'lasso'
+  anchor: SvgCoordinates
+  current: SvgCoordinates
+}
+
+interface InteractionModeEditing {
+  type: 'editing'
+  variant: EditVariant
+  anchor: SvgCoordinates
+}
+
+interface InteractionModeSketching {
+  type: 'sketching'
+  anchor: SvgCoordinates
+  currentX: number
+}
 
 export interface TrimNone {
   variant: 'none'
@@ -87,14 +126,16 @@ type InteractionModeTrim =
 export type InteractionMode =
   | InteractionModeNone
   | InteractionModeHover
-  | InteractionModeAnimationInProgress
   | InteractionModePanning
+  | InteractionModePinching
   | InteractionModeRubberBand
+  | InteractionModeLasso
+  | InteractionModeEditing
+  | InteractionModeSketching
   | InteractionModeTrim
 
 export const InteractionHandling = ({
   mousePosition,
-  isAnimationInProgress,
   isZoomInPossible,
   isZoomOutPossible,
   onHover,
@@ -102,10 +143,23 @@ export const InteractionHandling = ({
   onZoomOut,
   onZoomInCustom,
   onZoomInCustomInProgress,
+  onZoomByFactor,
   onZoomReset,
   onTrimStart,
   onTrimEnd,
   onPan,
+  onScroll,
+  onPanToEdge,
+  onEventFocusMove,
+  onFocusedEventClick,
+  onLasso,
+  editVariant,
+  onEditStart,
+  onEdit,
+  onEditEnd,
+  onEditCancel,
+  isSketchingPossible,
+  onSketchEnd,
   onInteractionEnd,
   children,
 }: Props) => {
@@ -114,36 +168,109 @@ export const InteractionHandling = ({
   const [isShiftKeyDown, setShiftKeyDown] = useState(false)
   const [isTrimming, setIsTrimming] = useState(false)
   const [interactionMode, setInteractionMode] = useState<InteractionMode>(interactionModeNone)
-
+  const interactionArea = useRef<SVGGElement>(null)
+
+  // x-positions of all pointers currently touching/clicking, used for panning & pinching
+  const activePointers = useRef(new Map<number, number>())
+  // initial and previous y-position of the panning pointer, used for scrolling
+  const panningAnchorY = useRef<number>()
+  const previousPointerY = useRef<number>()
+  const longPressTimeout = useRef<number>()
+  const [isLongPress, setIsLongPress] = useState(false)
+  // clicks ending a drag (e.g. of an edited event) must not be interpreted as clicks on events
+  const isDragEnd = useRef(false)
+
+  // keyboard listeners are added to the (focusable) SVG root, such that only the focused timeline reacts
   useEffect(() => {
-    if (isAnimationInProgress) {
-      setInteractionMode(interactionModeAnimationInProgress)
-    } else {
-      setInteractionMode(interactionModeHover)
+    const svgRoot = interactionArea.current?.ownerSVGElement
+    if (!svgRoot) {
+      return
     }
-  }, [isAnimationInProgress])
 
-  // detect alt-key presses (SVGs are not input components, listeners must be added to the DOM window instead)
-  useEffect(() => {
     const onKeyChange = (e: KeyboardEvent) => {
       setAltKeyDown(e.altKey)
       setShiftKeyDown(e.shiftKey)
-      // toggle trimming using "t" key
-      setIsTrimming((isTrimming) => (e.key === 't' && e.type === 'keydown' ? !isTrimming : isTrimming))
-      if (e.key === 'Escape') {
-        onZoomReset()
+      if (e.type !== 'keydown') {
+        return
       }
+      switch (e.key) {
+        case 't':
+          // toggle trimming using "t" key
+          setIsTrimming((isTrimming) => !isTrimming)
+          break
+        case 'Escape':
+          onZoomReset()
+          break
+        case 'ArrowLeft':
+          onPan(-keyboardPanDelta)
+          break
+        case 'ArrowRight':
+          onPan(keyboardPanDelta)
+          break
+        case 'ArrowUp':
+        case 'ArrowDown':
+          if (!onScroll) {
+            return
+          }
+          onScroll(e.key === 'ArrowUp' ? -keyboardPanDelta : keyboardPanDelta)
+          break
+        case '+':
+        case '=':
+          isZoomInPossible ? onZoomIn() : noOp()
+          break
+        case '-':
+          isZoomOutPossible ? onZoomOut() : noOp()
+          break
+        case 'Home':
+          onPanToEdge('start')
+          break
+        case 'End':
+          onPanToEdge('end')
+          break
+        case 'Tab':
+          // once there are no more events to focus, the browser moves the focus out of the timeline
+          if (onEventFocusMove(e.shiftKey ? 'previous' : 'next')) {
+            e.preventDefault()
+          }
+          return
+        case 'Enter':
+        case ' ':
+          onFocusedEventClick()
+          break
+        default:
+          return
+      }
+      e.preventDefault()
+    }
+
+    const onBlur = () => {
+      setAltKeyDown(false)
+      setShiftKeyDown(false)
+      onEventFocusMove('none')
     }
 
-    window.addEventListener('keydown', onKeyChange)
-    window.addEventListener('keyup', onKeyChange)
+    svgRoot.addEventListener('keydown', onKeyChange)
+    svgRoot.addEventListener('keyup', onKeyChange)
+    svgRoot.addEventListener('blur', onBlur)
 
     // will be called on component unmount
     return () => {
-      window.removeEventListener('keydown', onKeyChange)
-      window.removeEventListener('keyup', onKeyChange)
+      svgRoot.removeEventListener('keydown', onKeyChange)
+      svgRoot.removeEventListener('keyup', onKeyChange)
+      svgRoot.removeEventListener('blur', onBlur)
     }
-  }, [setAltKeyDown, setShiftKeyDown, setIsTrimming, onZoomReset])
+  }, [
+    isZoomInPossible,
+    isZoomOutPossible,
+    onZoomIn,
+    onZoomOut,
+    onZoomReset,
+    onPan,
+    onScroll,
+    onPanToEdge,
+    onEventFocusMove,
+    onFocusedEventClick,
+  ])
 
   useEffect(() => {
     if (isTrimming) {
@@ -157,8 +284,16 @@ export const InteractionHandling = ({
   }, [isTrimming, setInteractionMode])
 
   useEffect(() => {
-    if (interactionMode.type === 'animation in progress') {
-      setCursor('default')
+    if (
+      interactionMode.type === 'lasso' ||
+      interactionMode.type === 'sketching' ||
+      (interactionMode.type === 'hover' && isSketchingPossible && !isShiftKeyDown)
+    ) {
+      setCursor('crosshair')
+    } else if (interactionMode.type === 'editing' || (interactionMode.type === 'hover' && editVariant)) {
+      setCursor(
+        (interactionMode.type === 'editing' ? interactionMode.variant : editVariant) === 'move' ? 'move' : 'ew-resize'
+      )
     } else if (isShiftKeyDown || interactionMode.type === 'rubber band') {
       setCursor('ew-resize')
     } else if (interactionMode.type === 'panning') {
@@ -174,7 +309,15 @@ export const InteractionHandling = ({
       const getZoomInCursor = () => (isZoomInPossible ? 'zoom-in' : 'default')
       setCursor(isAltKeyDown ? getZoomOutCursor() : getZoomInCursor())
     }
-  }, [isAltKeyDown, isShiftKeyDown, isZoomInPossible, isZoomOutPossible, interactionMode])
+  }, [
+    isAltKeyDown,
+    isShiftKeyDown,
+    isZoomInPossible,
+    isZoomOutPossible,
+    interactionMode,
+    editVariant,
+    isSketchingPossible,
+  ])
 
   useEffect(() => {
     if (interactionMode.type === 'none' && onInteractionEnd) {
@@ -182,13 +325,94 @@ export const InteractionHandling = ({
     }
   }, [onInteractionEnd, interactionMode])
 
+  // the wheel listener is only added once, and reads the latest state and callbacks from here
+  const wheelState = useRef({ interactionMode, mousePosition, onPan, onScroll, onZoomByFactor, onInteractionEnd })
+  wheelState.current = { interactionMode, mousePosition, onPan, onScroll, onZoomByFactor, onInteractionEnd }
+  // wheel events are discrete, i.e. a wheel gesture ends once there haven't been any wheel events for a while
+  const wheelEndTimeout = useRef<number>()
+
+  // wheel listeners must be non-passive to prevent page scrolling, which is not possible with React's `onWheel`
+  useEffect(() => {
+    const element = interactionArea.current
+    if (!element) {
+      return
+    }
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const { interactionMode, mousePosition, onPan, onScroll, onZoomByFactor } = wheelState.current
+      if (interactionMode.type !== 'hover') {
+        return
+      }
+
+      const [deltaX, deltaY] = [normalizeWheelDelta(e, e.deltaX), normalizeWheelDelta(e, e.deltaY)]
+
+      if (e.shiftKey && deltaX === 0) {
+        // most mice only have a vertical wheel: treat shift + wheel as horizontal scrolling
+        onPan(deltaY)
+      } else if (Math.abs(deltaX) > Math.abs(deltaY)) {
+        onPan(deltaX)
+      } else if (onScroll && !e.ctrlKey) {
+        // scrollable lanes take precedence, zooming requires ctrl + wheel (or a trackpad pinch) then
+        onScroll(deltaY)
+      } else if (deltaY !== 0) {
+        // trackpad pinch gestures are reported as ctrl + wheel, with much smaller deltas
+        const sensitivity = e.ctrlKey ? wheelZoomSensitivity * 10 : wheelZoomSensitivity
+        onZoomByFactor(Math.exp(deltaY * sensitivity), mousePosition.x)
+      }
+
+      window.clearTimeout(wheelEndTimeout.current)
+      wheelEndTimeout.current = window.setTimeout(() => {
+        const { onInteractionEnd } = wheelState.current
+        if (onInteractionEnd) {
+          onInteractionEnd()
+        }
+      }, wheelEndDelay)
+    }
+
+    element.addEventListener('wheel', onWheel, { passive: false })
+    return () => {
+      element.removeEventListener('wheel', onWheel)
+      window.clearTimeout(wheelEndTimeout.current)
+    }
+  }, [])
+
   const getRubberRange = (anchor: number, position: number): Domain => [
     Math.min(anchor, position),
     Math.max(anchor, position),
   ]
 
-  const onMouseDown = () => {
-    const anchored: Anchored = { variant: 'anchored', anchorX: mousePosition.x }
+  const getPointerPosition = (e: React.PointerEvent): SvgCoordinates => {
+    const svgRoot = interactionArea.current?.ownerSVGElement
+    return svgRoot ? mapToSvgCoordinates(svgRoot, e) : mousePosition
+  }
+
+  const getPointerX = (e: React.PointerEvent) => getPointerPosition(e).x
+
+  const getPinch = (): InteractionModePinching => {
+    const [x1, x2] = Array.from(activePointers.current.values())
+    return { type: 'pinching', distance: Math.abs(x2 - x1), centerX: (x1 + x2) / 2 }
+  }
+
+  const cancelLongPress = () => window.clearTimeout(longPressTimeout.current)
+
+  useEffect(() => cancelLongPress, [])
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    activePointers.current.set(e.pointerId, getPointerX(e))
+    cancelLongPress()
+    setIsLongPress(false)
+    isDragEnd.current = false
+
+    if (activePointers.current.size === 2) {
+      // second finger turns any ongoing pan into a pinch zoom
+      setInteractionMode(getPinch())
+      return
+    } else if (activePointers.current.size > 2) {
+      return
+    }
+
+    const anchored: Anchored = { variant: 'anchored', anchorX: getPointerX(e) }
 
     if (interactionMode.type === 'trim') {
       if (interactionMode.variant === 'trim hover start') {
@@ -196,17 +420,66 @@ export const InteractionHandling = ({
       } else if (interactionMode.variant === 'trim hover end') {
         setInteractionMode({ type: 'trim', variant: 'trim end', otherX: interactionMode.otherX })
       }
-    } else if (isShiftKeyDown) {
+    } else if (editVariant && e.button === 0) {
+      const position = getPointerPosition(e)
+      setInteractionMode({ type: 'editing', variant: editVariant, anchor: position })
+      onEditStart(position)
+    } else if (onLasso && (e.ctrlKey || e.metaKey)) {
+      const position = getPointerPosition(e)
+      setInteractionMode({ type: 'lasso', anchor: position, current: position })
+    } else if (e.shiftKey) {
       setInteractionMode({ type: 'rubber band', ...anchored })
       onZoomInCustomInProgress(...getRubberRange(anchored.anchorX, anchored.anchorX))
+    } else if (isSketchingPossible && e.button === 0) {
+      const position = getPointerPosition(e)
+      setInteractionMode({ type: 'sketching', anchor: position, currentX: position.x })
     } else {
       setInteractionMode({ type: 'panning', ...anchored })
+      panningAnchorY.current = getPointerPosition(e).y
+      previousPointerY.current = panningAnchorY.current
+      if (e.pointerType === 'touch') {
+        // touch has no alt key: a long press zooms out instead
+        longPressTimeout.current = window.setTimeout(() => {
+          setIsLongPress(true)
+          if (isZoomOutPossible) {
+            onZoomOut()
+          }
+        }, longPressDuration)
+      }
     }
   }
 
-  const onMouseMove = (e: React.MouseEvent) => {
-    if (interactionMode.type === 'panning') {
-      onPan(-e.movementX)
+  const onPointerMove = (e: React.PointerEvent) => {
+    // the timeline might not have the keyboard focus, so modifier keys are (also) read from pointer events
+    setAltKeyDown(e.altKey)
+    setShiftKeyDown(e.shiftKey)
+
+    const previousX = activePointers.current.get(e.pointerId)
+    const currentX = getPointerX(e)
+    if (previousX !== undefined) {
+      activePointers.current.set(e.pointerId, currentX)
+    }
+
+    if (interactionMode.type === 'pinching') {
+      if (activePointers.current.size >= 2) {
+        const pinch = getPinch()
+        if (pinch.distance > 0) {
+          onZoomByFactor(interactionMode.distance / pinch.distance, interactionMode.centerX, pinch.centerX)
+        }
+        setInteractionMode(pinch)
+      }
+      return
+    }
+    if (interactionMode.type === 'panning' && previousX !== undefined) {
+      if (Math.abs(interactionMode.anchorX - currentX) >= clickThreshold) {
+        cancelLongPress()
+      }
+      onPan(previousX - currentX)
+      const currentY = getPointerPosition(e).y
+      if (onScroll && previousPointerY.current !== undefined) {
+        onScroll(previousPointerY.current - currentY)
+      }
+      previousPointerY.current = currentY
     }
     if (interactionMode.type === 'rubber band') {
       const inProgress: InteractionMode = {
@@ -217,6 +490,15 @@ export const InteractionHandling = ({
       setInteractionMode(inProgress)
       onZoomInCustomInProgress(...getRubberRange(inProgress.anchorX, inProgress.currentX))
     }
+    if (interactionMode.type === 'lasso') {
+      setInteractionMode({ ...interactionMode, current: getPointerPosition(e) })
+    }
+    if (interactionMode.type === 'editing') {
+      onEdit(interactionMode.anchor, getPointerPosition(e))
+    }
+    if (interactionMode.type === 'sketching') {
+      setInteractionMode({ ...interactionMode, currentX })
+    }
     if (interactionMode.type === 'trim') {
       if (interactionMode.variant === 'trim start') {
         onTrimStart(mousePosition.x)
@@ -229,25 +511,66 @@ export const InteractionHandling = ({
     }
   }
 
-  const onMouseEnter = () => {
+  const onPointerEnter = () => {
     if (interactionMode.type === 'none') {
       setInteractionMode(interactionModeHover)
     }
   }
 
-  const onMouseLeave = () => {
-    if (interactionMode.type === 'hover') {
-      setInteractionMode(interactionModeNone)
+  // pointers aren't captured (which would retarget clicks on events), i.e. the end of drags leaving the timeline is
+  // unknown: such drags are discarded, and their pointers would otherwise remain active (e.g. pinching)
+  const cancelDrag = (e: React.PointerEvent, nextMode: InteractionMode) => {
+    activePointers.current.delete(e.pointerId)
+    cancelLongPress()
+    if (interactionMode.type === 'editing') {
+      onEditCancel()
+    }
+    if (interactionMode.type !== 'trim' && interactionMode.type !== 'none') {
+      activePointers.current.clear()
+      setInteractionMode(nextMode)
     }
   }
 
-  const onMouseUp = (e: React.MouseEvent) => {
+  const onPointerLeave = (e: React.PointerEvent) => cancelDrag(e, interactionModeNone)
+
+  const onPointerCancel = (e: React.PointerEvent) => cancelDrag(e, interactionModeHover)
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    activePointers.current.delete(e.pointerId)
+    cancelLongPress()
+
+    if (interactionMode.type === 'pinching') {
+      // lifting one of two fingers ends the pinch (without zooming in)
+      if (activePointers.current.size < 2) {
+        activePointers.current.clear()
+        setInteractionMode(interactionModeHover)
+      }
+      return
+    }
+
     // anything below threshold is considered a click rather than a drag
-    const isPanning = interactionMode.type === 'panning' && Math.abs(interactionMode.anchorX - mousePosition.x) < 5
-    const isZoom = e.button === 0 && (interactionMode.type === 'hover' || isPanning)
+    const { x: pointerX, y: pointerY } = getPointerPosition(e)
+    const isScrolled = onScroll && Math.abs((panningAnchorY.current ?? pointerY) - pointerY) >= clickThreshold
+    const isPanning =
+      interactionMode.type === 'panning' && Math.abs(interactionMode.anchorX - pointerX) < clickThreshold && !isScrolled
+    const isZoom = e.button === 0 && !isLongPress && (interactionMode.type === 'hover' || isPanning)
 
     if (interactionMode.type === 'rubber band') {
-      onZoomInCustom(...getRubberRange(interactionMode.anchorX, mousePosition.x))
+      onZoomInCustom(...getRubberRange(interactionMode.anchorX, pointerX))
+    } else if (interactionMode.type === 'lasso') {
+      // ctrl/cmd-clicks (without dragging) are left to the events
+      const { anchor } = interactionMode
+      isDragEnd.current = Math.max(Math.abs(anchor.x - pointerX), Math.abs(anchor.y - pointerY)) >= clickThreshold
+      if (isDragEnd.current && onLasso) {
+        onLasso(anchor, { x: pointerX, y: pointerY })
+      }
+    } else if (interactionMode.type === 'editing') {
+      const { anchor } = interactionMode
+      isDragEnd.current = Math.max(Math.abs(anchor.x - pointerX), Math.abs(anchor.y - pointerY)) >= clickThreshold
+      onEditEnd()
+    } else if (interactionMode.type === 'sketching') {
+      const { anchor } = interactionMode
+      onSketchEnd(anchor, Math.abs(anchor.x - pointerX) >= clickThreshold ? pointerX : undefined)
     } else if (isZoom) {
       e.altKey ? onZoomOut() : isZoomInPossible ? onZoomIn() : noOp()
     }
@@ -259,6 +582,13 @@ export const InteractionHandling = ({
     }
   }
 
+  const onClickCapture = (e: React.MouseEvent) => {
+    if (isDragEnd.current) {
+      isDragEnd.current = false
+      e.stopPropagation()
+    }
+  }
+
   const setTrimHoverMode = (trimHoverMode: TrimHover | TrimNone) =>
     setInteractionMode((interactionMode) =>
       interactionMode.type === 'trim' &&
@@ -270,15 +600,36 @@ export const InteractionHandling = ({
 
   return (
     <g
+      ref={interactionArea}
       pointerEvents={'bounding-box'}
       cursor={cursor}
-      onMouseDown={onMouseDown}
-      onMouseMove={onMouseMove}
-      onMouseUp={onMouseUp}
-      onMouseEnter={onMouseEnter}
-      onMouseLeave={onMouseLeave}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerCancel}
+      onPointerEnter={onPointerEnter}
+      onPointerLeave={onPointerLeave}
+      onClickCapture={onClickCapture}
     >
       {children(cursor, interactionMode, setTrimHoverMode)}
     </g>
   )
 }
+
+const clickThreshold = 5
+const keyboardPanDelta = 50
+const longPressDuration = 500
+const wheelZoomSensitivity = 0.002
+const wheelEndDelay = 200
+
+/** Converts wheel deltas given in lines or pages into (approximate) pixels */
+const normalizeWheelDelta = (e: WheelEvent, delta: number): number => {
+  switch (e.deltaMode) {
+    case WheelEvent.DOM_DELTA_LINE:
+      return delta * 16
+    case WheelEvent.DOM_DELTA_PAGE:
+      return delta * 800
+    default:
+      return delta
+  }
+}
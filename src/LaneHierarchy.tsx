@@ -0,0 +1,76 @@
+import { TimelineEvent, TimelineLane } from './model'
+
+export interface LaneHierarchy<LID> {
+  /** Lanes to be displayed (i.e. without the descendants of collapsed groups), in depth-first order */
+  visibleLanes: ReadonlyArray<TimelineLane<LID>>
+  /** Nesting level of a lane (0 for top-level lanes) */
+  depth: (laneId: LID) => number
+  /** Whether a lane has child lanes */
+  isGroup: (laneId: LID) => boolean
+  /** Whether the children of a group lane are visible */
+  isExpanded: (laneId: LID) => boolean
+  /** Visible lane showing the events of a given lane (the lane itself, or its closest visible ancestor) */
+  displayLaneId: (laneId: LID) => LID | undefined
+}
+
+/**
+ * Arranges lanes into a tree based on their `parentLaneId`. Lanes referring to unknown parents are top-level lanes.
+ */
+export const calcLaneHierarchy = <LID,>(
+  lanes: ReadonlyArray<TimelineLane<LID>>,
+  isExpanded: (laneId: LID) => boolean
+): LaneHierarchy<LID> => {
+  const laneIds = new Set(lanes.map((l) => l.laneId))
+  const isTopLevel = (lane: TimelineLane<LID>) => lane.parentLaneId === undefined || !laneIds.has(lane.parentLaneId)
+
+  const children = new Map<LID, Array<TimelineLane<LID>>>()
+  lanes
+    .filter((lane) => !isTopLevel(lane))
+    .forEach((lane) => {
+      const siblings = children.get(lane.parentLaneId!)
+      siblings ? siblings.push(lane) : children.set(lane.parentLaneId!, [lane])
+    })
+
+  const visibleLanes: Array<TimelineLane<LID>> = []
+  const depths = new Map<LID, number>()
+  const displayLaneIds = new Map<LID, LID>()
+
+  const visit = (lane: TimelineLane<LID>, depth: number, displayLaneId: LID | undefined) => {
+    // guard against cyclic parent references
+    if (depths.has(lane.laneId)) {
+      return
+    }
+    const isVisible = displayLaneId === undefined
+    if (isVisible) {
+      visibleLanes.push(lane)
+    }
+    depths.set(lane.laneId, depth)
+    displayLaneIds.set(lane.laneId, isVisible ? lane.laneId : displayLaneId!)
+
+    const isCollapsed = isVisible && !isExpanded(lane.laneId)
+    const childDisplayLaneId = isCollapsed ? lane.laneId : displayLaneId
+    ;(children.get(lane.laneId) || []).forEach((child) => visit(child, depth + 1, childDisplayLaneId))
+  }
+
+  lanes.filter(isTopLevel).forEach((lane) => visit(lane, 0, undefined))
+
+  return {
+    visibleLanes,
+    depth: (laneId) => depths.get(laneId) || 0,
+    isGroup: (laneId) => children.has(laneId),
+    isExpanded: (laneId) => children.has(laneId) && isExpanded(laneId),
+    displayLaneId: (laneId) => displayLaneIds.get(laneId),
+  }
+}
+
+/**
+ * Moves events of hidden lanes to the lane displaying them (i.e. a collapsed group summarizes its descendants' events).
+ */
+export const assignDisplayLanes = <EID, LID>(
+  events: ReadonlyArray<TimelineEvent<EID, LID>>,
+  hierarchy: LaneHierarchy<LID>
+): ReadonlyArray<TimelineEvent<EID, LID>> =>
+  events.map((e) => {
+    const displayLaneId = hierarchy.displayLaneId(e.laneId)
+    return displayLaneId === undefined || displayLaneId === e.laneId ? e : { ...e, laneId: displayLaneId }
+  })
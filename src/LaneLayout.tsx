@@ -0,0 +1,72 @@
+import { TimelineLane } from './model'
+
+const paddingInner = 0.1
+const paddingOuter = 0.8
+const defaultEventMarkerHeight = 20
+
+export interface LaneLayout<LID> {
+  /** Vertical distance between two adjacent rows */
+  rowStep: number
+  /** Height available to the marks of a single row */
+  bandwidth: number
+  /** Height needed to show all lanes, exceeds the available height if lanes must be scrolled */
+  contentHeight: number
+  /** Vertical position of a lane's axis (i.e. of its first row) */
+  laneY: (laneId: LID) => number | undefined
+  /** Vertical position of a given row inside a lane */
+  rowY: (laneId: LID, row: number) => number | undefined
+  /** Lane at a given vertical position, `undefined` if the position is above or below all lanes (e.g. in the padding) */
+  laneIdAt: (y: number) => LID | undefined
+}
+
+/**
+ * Distributes lanes vertically, similar to a d3 `scaleBand` (and identical to it if every lane has a single row), but
+ * allowing lanes to span several rows.
+ *
+ * Rows never get narrower than `minRowStep`, in which case the content becomes higher than the available `height`.
+ */
+export const calcLaneLayout = <LID,>(
+  lanes: ReadonlyArray<TimelineLane<LID>>,
+  height: number,
+  rowCount: (laneId: LID) => number = () => 1,
+  minRowStep: number = 0
+): LaneLayout<LID> => {
+  const rowCounts = lanes.map((lane) => Math.max(1, rowCount(lane.laneId)))
+  const totalRowCount = rowCounts.reduce((sum, count) => sum + count, 0)
+  const totalRowSteps = Math.max(1, totalRowCount - paddingInner + 2 * paddingOuter)
+  const rowStep = Math.max(minRowStep, height / totalRowSteps)
+
+  const laneYs = new Map<LID, number>()
+  lanes.reduce((y, lane, index) => {
+    laneYs.set(lane.laneId, y)
+    return y + rowCounts[index] * rowStep
+  }, paddingOuter * rowStep)
+
+  const laneY = (laneId: LID) => laneYs.get(laneId)
+  const rowY = (laneId: LID, row: number) => {
+    const y = laneYs.get(laneId)
+    return y === undefined ? undefined : y + row * rowStep
+  }
+
+  // rows are centered around their y-position
+  const laneIdAt = (y: number) => {
+    if (lanes.length === 0 || y < laneYs.get(lanes[0].laneId)! - 0.5 * rowStep) {
+      return undefined
+    }
+    const index = lanes.findIndex((lane, i) => y < laneYs.get(lane.laneId)! + (rowCounts[i] - 0.5) * rowStep)
+    return index < 0 ? undefined : lanes[index].laneId
+  }
+
+  return {
+    rowStep,
+    bandwidth: rowStep * (1 - paddingInner),
+    contentHeight: Math.max(height, totalRowSteps * rowStep),
+    laneY,
+    rowY,
+    laneIdAt,
+  }
+}
+
+/** Height of event marks, stacked sub-rows might be narrower than the default */
+export const calcEventMarkerHeight = <LID,>(layout: LaneLayout<LID>, isStacked: boolean) =>
+  isStacked ? Math.min(defaultEventMarkerHeight, 0.8 * layout.bandwidth) : defaultEventMarkerHeight
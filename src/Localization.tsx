@@ -0,0 +1,42 @@
+import { ZoomScale } from './ZoomScale'
+
+export interface TimelineMessages {
+  /** Label of the trimmer's start handle */
+  dateFrom: string
+  /** Label of the trimmer's end handle */
+  dateTo: string
+  /** Label of the "now" marker */
+  now: string
+  /** Labels of the built-in zoom scales (shown as cursor labels), custom zoom ladders bring their own labels */
+  zoomScales: Readonly<Record<ZoomScale, string>>
+}
+
+/** Translations of some of the messages (including only some of the zoom scales) */
+export type PartialTimelineMessages = Partial<Omit<TimelineMessages, 'zoomScales'>> & {
+  zoomScales?: Partial<TimelineMessages['zoomScales']>
+}
+
+export const defaultTimelineMessages: TimelineMessages = {
+  dateFrom: 'Date from',
+  dateTo: 'Date to',
+  now: 'Now',
+  zoomScales: {
+    maximum: 'maximum',
+    '10 years': '10 years',
+    '1 year': '1 year',
+    '1 month': '1 month',
+    '1 week': '1 week',
+    '1 day': '1 day',
+    '1 hour': '1 hour',
+    '1 minute': '1 minute',
+    '1 second': '1 second',
+    minimum: 'minimum',
+  },
+}
+
+/** Completes partially translated messages with the (English) defaults */
+export const resolveMessages = (messages: PartialTimelineMessages = {}): TimelineMessages => ({
+  ...defaultTimelineMessages,
+  ...messages,
+  zoomScales: { ...defaultTimelineMessages.zoomScales, ...messages.zoomScales },
+})
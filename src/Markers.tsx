@@ -0,0 +1,53 @@
+import * as React from 'react'
+import { useEffect, useState } from 'react'
+import { ScaleLinear } from 'd3-scale'
+import { TimelineMarker } from './model'
+import { useTimelineTheme } from './TimelineTheme'
+
+interface Props {
+  markers: ReadonlyArray<TimelineMarker>
+  timeScale: ScaleLinear<number, number>
+  height: number
+}
+
+/** Full-height lines at the given times, labelled at the top (markers outside of the domain are omitted) */
+export const Markers = ({ markers, timeScale, height }: Props) => {
+  const theme = useTimelineTheme()
+  const [domainStart, domainEnd] = timeScale.domain()
+  return (
+    <g pointerEvents={'none'}>
+      {markers
+        .filter((m) => m.timeMillis >= domainStart && m.timeMillis <= domainEnd)
+        .map((m, index) => {
+          const x = timeScale(m.timeMillis)!
+          const color = m.color || theme.marker.color
+          return (
+            <g key={`${m.timeMillis}-${index}`}>
+              <line x1={x} y1={0} x2={x} y2={height} stroke={color} strokeWidth={theme.marker.lineWidth} />
+              {m.label && (
+                <text x={x + 4} y={4} fill={color} dominantBaseline={'hanging'} fontFamily={theme.base.fontFamily}>
+                  {m.label}
+                </text>
+              )}
+            </g>
+          )
+        })}
+    </g>
+  )
+}
+
+/** Current time, updated every `intervalMillis` while enabled */
+export const useNow = (intervalMillis: number, isEnabled: boolean = true) => {
+  const [now, setNow] = useState(Date.now)
+
+  useEffect(() => {
+    if (!isEnabled) {
+      return
+    }
+    setNow(Date.now())
+    const interval = window.setInterval(() => setNow(Date.now()), intervalMillis)
+    return () => window.clearInterval(interval)
+  }, [intervalMillis, isEnabled])
+
+  return now
+}
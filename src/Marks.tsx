@@ -1,34 +1,60 @@
 import * as React from 'react'
 import { useMemo, useRef } from 'react'
-import { defaultEventColor, noOp, selectionColor, selectionColorOpaque } from './shared'
-import { ScaleLinear, scaleLinear } from 'd3-scale'
-import { Theme } from '@material-ui/core'
+import { noOp } from './shared'
+import { ScaleLinear } from 'd3-scale'
 import { EventComponentFactory, EventComponentRole, TimelineEvent } from './model'
-import { Tooltip } from 'react-svg-tooltip'
-import makeStyles from '@material-ui/core/styles/makeStyles'
-import useTheme from '@material-ui/core/styles/useTheme'
+import { EventTooltip } from './EventTooltip'
+import { TimelineTheme, useTimelineTheme } from './TimelineTheme'
 
-const useStyles = makeStyles((theme: Theme) => ({
+const eventStyles = (theme: TimelineTheme) => ({
   eventBackground: {
     strokeWidth: 0,
-    fill: theme.palette.background.paper
+    fill: theme.base.backgroundColor,
   },
   eventRect: {
-    stroke: theme.palette.background.paper,
-    strokeWidth: 2,
-    fillOpacity: 0.5
+    stroke: theme.base.backgroundColor,
+    strokeWidth: theme.event.strokeWidth,
+    fillOpacity: theme.event.opacity,
   },
   eventCircle: {
-    stroke: theme.palette.background.paper,
-    strokeWidth: 2,
-    fillOpacity: 0.5
+    stroke: theme.base.backgroundColor,
+    strokeWidth: theme.event.strokeWidth,
+    fillOpacity: theme.event.opacity,
   },
   selectedEvent: {
-    stroke: selectionColorOpaque,
-    strokeWidth: 2,
-    fill: selectionColor
+    stroke: theme.event.selectedStrokeColor,
+    strokeWidth: theme.event.strokeWidth,
+    fill: theme.event.selectedColor,
+  },
+})
+
+// shallow comparison of all event properties (except for the selection, if ignored)
+const isShallowEqual = <EID, LID>(a: TimelineEvent<EID, LID>, b: TimelineEvent<EID, LID>, ignoreSelection: boolean) => {
+  if (a === b) {
+    return true
   }
-}))
+  const isRelevant = (key: string) => !ignoreSelection || key !== 'isSelected'
+  const [aKeys, bKeys] = [Object.keys(a).filter(isRelevant), Object.keys(b).filter(isRelevant)]
+  return aKeys.length === bKeys.length && aKeys.every((key) => a[key as keyof typeof a] === b[key as keyof typeof b])
+}
+
+const isSameEvent = <EID, LID>(a: TimelineEvent<EID, LID>, b: TimelineEvent<EID, LID>) => isShallowEqual(a, b, false)
+
+const isSameEventIgnoringSelection = <EID, LID>(a: TimelineEvent<EID, LID>, b: TimelineEvent<EID, LID>) =>
+  isShallowEqual(a, b, true)
+
+/** The previous events as long as they are the same (according to `isSame`) as the given ones, i.e. a stable memo key */
+const useStableEvents = <EID, LID>(
+  events: ReadonlyArray<TimelineEvent<EID, LID>>,
+  isSame: (a: TimelineEvent<EID, LID>, b: TimelineEvent<EID, LID>) => boolean
+) => {
+  const stableEvents = useRef(events)
+  const previous = stableEvents.current
+  if (previous !== events && (previous.length !== events.length || !events.every((e, i) => isSame(previous[i], e)))) {
+    stableEvents.current = events
+  }
+  return stableEvents.current
+}
 
 export interface Props<EID, LID> {
   events: ReadonlyArray<TimelineEvent<EID, LID>>
@@ -38,7 +64,8 @@ export interface Props<EID, LID> {
   eventComponent?: EventComponentFactory<EID, LID>
   onEventHover?: (eventId: EID) => void
   onEventUnhover?: (eventId: EID) => void
-  onEventClick?: (eventId: EID) => void
+  /** The click event allows to distinguish modifier clicks (e.g. for multi-selection) */
+  onEventClick?: (eventId: EID, e?: React.MouseEvent) => void
 }
 
 /**
@@ -53,7 +80,8 @@ export interface Props<EID, LID> {
  */
 export const Marks = <EID extends string, LID extends string>(props: Props<EID, LID>) => {
   const { events } = props
-  const classes = useStyles()
+  const theme = useTimelineTheme()
+  const styles = eventStyles(theme)
   const { eventComponent, timeScale, y } = props
 
   // shorter periods on top of longer ones
@@ -63,64 +91,58 @@ export const Marks = <EID extends string, LID extends string>(props: Props<EID,
   const defaultEventComponent = (e: TimelineEvent<EID, LID>, role: EventComponentRole) => {
     if (role === 'background') {
       // opaque background to prevent axis-/grid-lines from shining through
-      return <DefaultEventMark e={e} className={classes.eventBackground} {...props} />
+      return <DefaultEventMark e={e} style={styles.eventBackground} {...props} />
     } else if (e.isSelected) {
-      return <DefaultEventMark e={e} className={classes.selectedEvent} {...props} />
+      return <DefaultEventMark e={e} style={styles.selectedEvent} {...props} />
     } else {
       if (e.endTimeMillis) {
-        return <DefaultEventMark e={e} className={classes.eventRect} {...props} />
+        return <DefaultEventMark e={e} style={styles.eventRect} {...props} />
       } else {
-        return <DefaultEventMark e={e} className={classes.eventCircle} {...props} />
+        return <DefaultEventMark e={e} style={styles.eventCircle} {...props} />
       }
     }
   }
 
   const eventComponentFactory = eventComponent || defaultEventComponent
 
-  // string-based deep-comparisons to determine whether marks should be re-rendered
-  const comparableEvents = JSON.stringify(events)
-  const comparableTimeScale = JSON.stringify({ domain: timeScale.domain(), range: timeScale.range() })
-
-  // ignoring `isSelected` for background/foreground marks (selectionMarks are rendered specifically)
-  const comparableEventsIgnoringSelection = JSON.stringify(events, (key, value) => {
-    if (key == 'isSelected') return undefined
-    return value
-  })
+  // shallow per-event comparisons determine whether marks should be re-rendered (selectionMarks ignore everything else)
+  const stableEvents = useStableEvents(events, isSameEvent)
+  const stableEventsIgnoringSelection = useStableEvents(events, isSameEventIgnoringSelection)
 
   const backgroundMarks = useMemo(
     () =>
-      events.map((e: TimelineEvent<EID, LID>) => (
+      stableEventsIgnoringSelection.map((e: TimelineEvent<EID, LID>) => (
         <InteractiveEventMark key={e.eventId} event={e} {...props}>
           {eventComponentFactory(e, 'background', timeScale, y)}
         </InteractiveEventMark>
       )),
-    [comparableEventsIgnoringSelection, comparableTimeScale]
+    [stableEventsIgnoringSelection, timeScale, y, theme]
   )
 
   const foregroundMarks = useMemo(
     () =>
-      events
-        .filter(_ => true)
+      stableEventsIgnoringSelection
+        .filter((_) => true)
         .sort(sortByEventDuration)
         .map((e: TimelineEvent<EID, LID>) => (
           <InteractiveEventMark key={e.eventId} event={e} {...props}>
             {eventComponentFactory(e, 'foreground', timeScale, y)}
           </InteractiveEventMark>
         )),
-    [comparableEventsIgnoringSelection, comparableTimeScale]
+    [stableEventsIgnoringSelection, timeScale, y, theme]
   )
 
   const selectionMarks = useMemo(
     () =>
-      events
-        .filter(e => e.isSelected)
+      stableEvents
+        .filter((e) => e.isSelected)
         .sort(sortByEventDuration)
         .map((e: TimelineEvent<EID, LID>) => (
           <InteractiveEventMark key={e.eventId} event={e} {...props}>
             {eventComponentFactory(e, 'foreground', timeScale, y)}
           </InteractiveEventMark>
         )),
-    [comparableEvents, comparableTimeScale]
+    [stableEvents, timeScale, y, theme]
   )
 
   return (
@@ -138,7 +160,7 @@ interface InteractiveGroupProps<EID, LID> {
   y: number
   onEventHover?: (eventId: EID) => void
   onEventUnhover?: (eventId: EID) => void
-  onEventClick?: (eventId: EID) => void
+  onEventClick?: (eventId: EID, e?: React.MouseEvent) => void
   children: React.ReactNode
 }
 
@@ -149,13 +171,13 @@ const InteractiveEventMark = <EID, LID>({
   onEventClick = noOp,
   onEventHover = noOp,
   onEventUnhover = noOp,
-  children
+  children,
 }: InteractiveGroupProps<EID, LID>) => {
   const eventId = event.eventId
 
-  const onMouseEnter = () => onEventHover(eventId)
-  const onMouseLeave = () => onEventUnhover(eventId)
-  const onMouseClick = () => onEventClick(eventId)
+  const onPointerEnter = () => onEventHover(eventId)
+  const onPointerLeave = () => onEventUnhover(eventId)
+  const onMouseClick = (e: React.MouseEvent) => onEventClick(eventId, e)
 
   const startX = timeScale(event.startTimeMillis)!
   const parentWidth = timeScale.range()[1]
@@ -166,9 +188,9 @@ const InteractiveEventMark = <EID, LID>({
   return (
     <g
       pointerEvents={'bounding-box'}
-      cursor={'default'}
-      onMouseEnter={onMouseEnter}
-      onMouseLeave={onMouseLeave}
+      cursor={event.isEditable ? undefined : 'default'}
+      onPointerEnter={onPointerEnter}
+      onPointerLeave={onPointerLeave}
       onClick={onMouseClick}
     >
       <g ref={triggerRef}>{children}</g>
@@ -183,31 +205,22 @@ const InteractiveEventMark = <EID, LID>({
 
 interface DefaultEventMarkProps<EID, LID> extends Omit<Props<EID, LID>, 'events'> {
   e: TimelineEvent<EID, LID>
-  className: string
+  style: React.CSSProperties
   eventMarkerHeight?: number
 }
 
 const DefaultEventMark = <EID, LID>({
   e,
   eventMarkerHeight = 20,
-  className,
+  style,
   y,
-  timeScale
+  timeScale,
 }: DefaultEventMarkProps<EID, LID>) => {
-  const theme: Theme = useTheme()
+  const theme = useTimelineTheme()
   const startX = timeScale(e.startTimeMillis)!
-  const strokeColor = e.isPinned ? (theme.palette.type === 'dark' ? 'white' : 'black') : undefined
+  const markStyle = e.isPinned ? { ...style, stroke: theme.event.pinnedStrokeColor } : style
   if (e.endTimeMillis === undefined) {
-    return (
-      <circle
-        cx={startX}
-        cy={y}
-        r={eventMarkerHeight / 2}
-        className={className}
-        fill={e.color || defaultEventColor}
-        style={{ stroke: strokeColor }}
-      />
-    )
+    return <circle cx={startX} cy={y} r={eventMarkerHeight / 2} fill={e.color || theme.event.color} style={markStyle} />
   } else {
     const endX = timeScale(e.endTimeMillis)!
     const width = endX - startX
@@ -217,94 +230,9 @@ const DefaultEventMark = <EID, LID>({
         y={y - eventMarkerHeight / 2}
         width={width}
         height={eventMarkerHeight}
-        className={className}
-        fill={e.color || defaultEventColor}
-        style={{ stroke: strokeColor }}
+        fill={e.color || theme.event.color}
+        style={markStyle}
       />
     )
   }
 }
-
-const useTooltipStyle = makeStyles((theme: Theme) => ({
-  background: {
-    fill: theme.palette.text.secondary,
-    strokeWidth: 0
-  },
-  text: {
-    fill: 'white',
-    dominantBaseline: 'middle',
-    textAnchor: 'middle',
-    fontFamily: theme.typography.caption.fontFamily,
-    fontSize: 14
-  }
-}))
-
-interface EventTooltipProps {
-  type: { singleEventX: number } | 'period'
-  y: number
-  parentWidth: number
-  text: string
-  triggerRef: React.RefObject<SVGElement>
-}
-
-const EventTooltip = ({ type, y, parentWidth, text, triggerRef }: EventTooltipProps) => {
-  const classes = useTooltipStyle()
-  const width = type === 'period' ? 180 : 100
-  const height = 30
-  return (
-    <Tooltip triggerRef={triggerRef}>
-      {(xOffset, yOffset) => {
-        // tooltip follows the mouse, these offsets can be used to counteract this behavior
-
-        // single events: tooltip does NOT follow the mouse (to have a less jumpy user experience)
-        // event periods: tooltip does follow the mouse (because rectangular periods can easily get off screen)
-        const tooltipX = type === 'period' ? 0 : type.singleEventX - xOffset
-
-        const tooltipYPadding = 12
-        const tooltipY = y - yOffset - height - tooltipYPadding // don't follow mouse
-
-        // determines how the rectangular tooltip area is offset to the left/right of the arrow
-        // the closer to the left edge, the more the rect is shifted to the right (same for right edge)
-        const safetyMargin = 15
-        const tooltipOffset = scaleLinear()
-          .domain([0, parentWidth])
-          .range([safetyMargin, width - safetyMargin])
-
-        const arrowDimension = 20
-
-        return (
-          <g>
-            <svg x={tooltipX - tooltipOffset(xOffset)!} y={tooltipY - arrowDimension / 2} width={width} height={height}>
-              <rect width="100%" height="100%" rx={3} ry={3} className={classes.background} />
-              <text x="50%" y="50%" className={classes.text}>
-                {text}
-              </text>
-            </svg>
-            <ArrowDown tipX={tooltipX} baseY={tooltipY} dimension={arrowDimension} className={classes.background} />)
-          </g>
-        )
-      }}
-    </Tooltip>
-  )
-}
-
-interface ArrowDownProps {
-  tipX: number
-  baseY: number
-  dimension: number
-  className: string
-}
-
-const ArrowDown = ({ tipX, baseY, dimension, className }: ArrowDownProps) => {
-  return (
-    <svg
-      x={tipX - dimension / 2}
-      y={baseY + dimension / 2 + 5} // the triangle is only of height 5
-      viewBox={`0 0 10 10`} // path is expressed for a 10x10 square
-      width={dimension}
-      height={dimension}
-    >
-      <path className={className} d={`M0 2.5 l 5 5 5-5z`} />
-    </svg>
-  )
-}
@@ -5,6 +5,7 @@ interface Props {
   width: number
   height: number
   children: (mousePosition: SvgCoordinates) => React.ReactNode
+  onPointerLeave?: () => void
 }
 
 const mousePositionNone = { x: NaN, y: NaN }
@@ -14,38 +15,48 @@ export interface SvgCoordinates {
   y: number
 }
 
-export const MouseAwareSvg = ({ width, height, children }: Props) => {
+/**
+ * Determines the coordinates of the mouse pointer in the coordinate system of the SVG root view port.
+ * See http://www.petercollingridge.co.uk/tutorials/svg/interactive/dragging/
+ */
+export const mapToSvgCoordinates = (
+  svgRoot: SVGSVGElement,
+  event: { clientX: number; clientY: number }
+): SvgCoordinates => {
+  const ctm = svgRoot.getScreenCTM()
+  if (ctm) {
+    return {
+      x: (event.clientX - ctm.e) / ctm.a,
+      y: (event.clientY - ctm.f) / ctm.d,
+    }
+  } else {
+    return mousePositionNone
+  }
+}
+
+export const MouseAwareSvg = ({ width, height, children, onPointerLeave }: Props) => {
   const svgRoot = useRef<SVGSVGElement>(null)
   const [mousePosition, setMousePosition] = useState<SvgCoordinates>(mousePositionNone)
 
-  /**
-   * Determines the coordinates of the mouse pointer in the coordinate system of the SVG root view port.
-   * See http://www.petercollingridge.co.uk/tutorials/svg/interactive/dragging/
-   */
-  const mapMouseEvent = (event: React.MouseEvent): SvgCoordinates => {
-    const ctm = svgRoot.current!.getScreenCTM()
-    if (ctm) {
-      return {
-        x: (event.clientX - ctm.e) / ctm.a,
-        y: (event.clientY - ctm.f) / ctm.d
-      }
-    } else {
-      return mousePositionNone
+  const updateMousePosition = (e: React.PointerEvent) => setMousePosition(mapToSvgCoordinates(svgRoot.current!, e))
+  const resetMousePosition = () => {
+    setMousePosition(mousePositionNone)
+    if (onPointerLeave) {
+      onPointerLeave()
     }
   }
 
-  const updateMousePosition = (e: React.MouseEvent) => setMousePosition(mapMouseEvent(e))
-  const resetMousePosition = () => setMousePosition(mousePositionNone)
-
   return (
     <svg
       viewBox={`0 0 ${width} ${height}`}
       width={width}
       height={height}
       ref={svgRoot}
-      onMouseEnter={updateMousePosition}
-      onMouseMove={updateMousePosition}
-      onMouseLeave={resetMousePosition}
+      tabIndex={0}
+      style={{ touchAction: 'none' }} // touch gestures are handled by the timeline itself
+      onPointerEnter={updateMousePosition}
+      onPointerMove={updateMousePosition}
+      onPointerLeave={resetMousePosition}
     >
       {children(mousePosition)}
     </svg>
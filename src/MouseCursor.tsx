@@ -1,21 +1,29 @@
 import * as React from 'react'
-import { ZoomScale } from './ZoomScale'
-import makeStyles from '@material-ui/core/styles/makeStyles'
-import { orange } from '@material-ui/core/colors'
 import { Cursor } from './model'
 import { InteractionMode } from './InteractionHandling'
 import CursorLabel from './CursorLabel'
+import { SvgCoordinates } from './MouseAwareSvg'
+import { useTimelineTheme } from './TimelineTheme'
 
-const useStyles = makeStyles(() => ({
-  cursor: {
-    stroke: orange.A200,
-    strokeWidth: 2,
-  },
-  zoomRange: {
-    fill: orange.A200,
-    opacity: 0.1,
-  },
-}))
+const useCursorStyles = () => {
+  const { lineColor, lineWidth, zoomRangeColor, zoomRangeOpacity } = useTimelineTheme().mouseCursor
+  return {
+    cursor: {
+      stroke: lineColor,
+      strokeWidth: lineWidth,
+    },
+    zoomRange: {
+      fill: zoomRangeColor,
+      opacity: zoomRangeOpacity,
+    },
+    lasso: {
+      stroke: lineColor,
+      strokeWidth: 1,
+      fill: zoomRangeColor,
+      fillOpacity: zoomRangeOpacity,
+    },
+  }
+}
 
 interface Props {
   mousePosition: number
@@ -24,8 +32,12 @@ interface Props {
   interactionMode: InteractionMode
   zoomRangeStart: number
   zoomRangeEnd: number
-  zoomScale: ZoomScale
+  zoomScaleLabel: string
   isZoomInPossible: boolean
+  /** Vertical extent of the lane in which a new event is sketched */
+  sketchBand?: Readonly<{ y: number; height: number }>
+  /** Position of the mouse cursor of another (synchronized) timeline, shown while this timeline isn't hovered */
+  syncedCursorPosition?: number
 }
 
 export const MouseCursor = ({
@@ -35,17 +47,16 @@ export const MouseCursor = ({
   interactionMode,
   zoomRangeStart,
   zoomRangeEnd,
-  zoomScale,
+  zoomScaleLabel,
   isZoomInPossible,
+  sketchBand,
+  syncedCursorPosition,
 }: Props) => {
   if (isNaN(mousePosition)) {
-    return <g />
+    return syncedCursorPosition === undefined ? <g /> : <SyncedCursor mousePosition={syncedCursorPosition} />
   } else {
     const cursorComponent = () => {
       switch (interactionMode.type) {
-        case 'animation in progress': {
-          return <g />
-        }
         case 'panning':
           return <PanningCursor mousePosition={mousePosition} />
         case 'rubber band': {
@@ -55,13 +66,24 @@ export const MouseCursor = ({
               : [interactionMode.anchorX, interactionMode.currentX]
           return <RubberBandCursor start={start} end={end} />
         }
+        case 'sketching':
+          return (
+            <RubberBandCursor
+              start={interactionMode.anchor.x}
+              end={interactionMode.currentX}
+              y={sketchBand && sketchBand.y}
+              height={sketchBand && sketchBand.height}
+            />
+          )
+        case 'lasso':
+          return <LassoCursor start={interactionMode.anchor} end={interactionMode.current} />
         default:
           return (
             <ZoomCursor
               mousePosition={mousePosition}
               cursor={cursor}
               cursorLabel={cursorLabel}
-              zoomScale={zoomScale}
+              zoomScaleLabel={zoomScaleLabel}
               isZoomInPossible={isZoomInPossible}
               zoomRangeStart={zoomRangeStart}
               zoomRangeEnd={zoomRangeEnd}
@@ -88,7 +110,7 @@ interface ZoomCursorProps {
   mousePosition: number
   cursor: Cursor
   cursorLabel: string
-  zoomScale: ZoomScale
+  zoomScaleLabel: string
   isZoomInPossible: boolean
   zoomRangeStart: number
   zoomRangeEnd: number
@@ -98,32 +120,32 @@ const ZoomCursor = ({
   mousePosition,
   cursor,
   cursorLabel,
-  zoomScale,
+  zoomScaleLabel,
   isZoomInPossible,
   zoomRangeStart,
   zoomRangeEnd,
 }: ZoomCursorProps) => {
-  const classes = useStyles()
+  const styles = useCursorStyles()
   return (
     <g>
       <rect
         visibility={isZoomInPossible ? 'visible' : 'hidden'}
-        className={classes.zoomRange}
+        style={styles.zoomRange}
         x={zoomRangeStart}
         y={0}
         width={zoomRangeEnd - zoomRangeStart}
         height="100%"
         cursor={cursor}
       />
-      <line className={classes.cursor} x1={mousePosition} y1="0%" x2={mousePosition} y2="5%" cursor={cursor} />
+      <line style={styles.cursor} x1={mousePosition} y1="0%" x2={mousePosition} y2="5%" cursor={cursor} />
       <CursorLabel
         x={mousePosition}
         y={isZoomInPossible ? '11%' : '15%'}
         cursor={cursor}
         overline={cursorLabel}
-        label={isZoomInPossible ? zoomScale : ''}
+        label={isZoomInPossible ? zoomScaleLabel : ''}
       />
-      <line className={classes.cursor} x1={mousePosition} y1="23%" x2={mousePosition} y2="100%" cursor={cursor} />
+      <line style={styles.cursor} x1={mousePosition} y1="23%" x2={mousePosition} y2="100%" cursor={cursor} />
     </g>
   )
 }
@@ -137,10 +159,23 @@ interface PanningProps {
 }
 
 const PanningCursor = ({ mousePosition }: PanningProps) => {
-  const classes = useStyles()
+  const styles = useCursorStyles()
   return (
     <g>
-      <line className={classes.cursor} x1={mousePosition} y1={'0%'} x2={mousePosition} y2={'100%'} cursor={'grab'} />
+      <line style={styles.cursor} x1={mousePosition} y1={'0%'} x2={mousePosition} y2={'100%'} cursor={'grab'} />
+    </g>
+  )
+}
+
+/* ·················································································································· */
+/*  Synced
+/* ·················································································································· */
+
+const SyncedCursor = ({ mousePosition }: PanningProps) => {
+  const styles = useCursorStyles()
+  return (
+    <g pointerEvents={'none'}>
+      <line style={styles.cursor} x1={mousePosition} y1={'0%'} x2={mousePosition} y2={'100%'} strokeDasharray={4} />
     </g>
   )
 }
@@ -152,26 +187,52 @@ const PanningCursor = ({ mousePosition }: PanningProps) => {
 interface RubberBandProps {
   start: number
   end?: number
+  /** Vertical extent, full height by default */
+  y?: number
+  height?: number
 }
 
-const RubberBandCursor = ({ start, end }: RubberBandProps) => {
-  const classes = useStyles()
-  const [y1, y2] = ['0%', '100%']
+const RubberBandCursor = ({ start, end, y, height }: RubberBandProps) => {
+  const styles = useCursorStyles()
+  const [y1, y2, rangeHeight] =
+    y === undefined || height === undefined ? ['0%', '100%', '100%'] : [y, y + height, height]
   return (
     <g>
-      <line className={classes.cursor} x1={start} y1={y1} x2={start} y2={y2} />
+      <line style={styles.cursor} x1={start} y1={y1} x2={start} y2={y2} />
       {end && (
         <g>
-          <line className={classes.cursor} x1={end} y1={y1} x2={end} y2={y2} />
+          <line style={styles.cursor} x1={end} y1={y1} x2={end} y2={y2} />
           <rect
-            className={classes.zoomRange}
+            style={styles.zoomRange}
             x={Math.min(start, end)}
             y={y1}
             width={Math.abs(end - start)}
-            height={y2}
+            height={rangeHeight}
           />
         </g>
       )}
     </g>
   )
 }
+
+/* ·················································································································· */
+/*  Lasso
+/* ·················································································································· */
+
+interface LassoProps {
+  start: SvgCoordinates
+  end: SvgCoordinates
+}
+
+const LassoCursor = ({ start, end }: LassoProps) => {
+  const styles = useCursorStyles()
+  return (
+    <rect
+      style={styles.lasso}
+      x={Math.min(start.x, end.x)}
+      y={Math.min(start.y, end.y)}
+      width={Math.abs(end.x - start.x)}
+      height={Math.abs(end.y - start.y)}
+    />
+  )
+}
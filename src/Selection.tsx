@@ -0,0 +1,56 @@
+import { Domain, TimelineEvent } from './model'
+
+export type SelectionGesture = 'toggle' | 'range' | 'none'
+
+/** Ctrl/cmd-clicks toggle single events, shift-clicks select ranges */
+export const selectionGesture = (modifiers: { ctrlKey: boolean; metaKey: boolean; shiftKey: boolean }) =>
+  modifiers.ctrlKey || modifiers.metaKey ? 'toggle' : modifiers.shiftKey ? 'range' : 'none'
+
+export const selectedEventIds = <EID, LID>(events: ReadonlyArray<TimelineEvent<EID, LID>>): ReadonlyArray<EID> =>
+  events.filter((e) => e.isSelected).map((e) => e.eventId)
+
+export const toggleSelection = <EID,>(selection: ReadonlyArray<EID>, eventId: EID): ReadonlyArray<EID> =>
+  selection.includes(eventId) ? selection.filter((id) => id !== eventId) : [...selection, eventId]
+
+/**
+ * All events of the target event's lane, starting between the anchor event and the target event (both inclusive).
+ *
+ * Only the target event is selected if there is no anchor, or if it is in a different lane.
+ */
+export const selectRange = <EID, LID>(
+  events: ReadonlyArray<TimelineEvent<EID, LID>>,
+  anchorEventId: EID | undefined,
+  targetEventId: EID
+): ReadonlyArray<EID> => {
+  const anchor = events.find((e) => e.eventId === anchorEventId)
+  const target = events.find((e) => e.eventId === targetEventId)
+  if (!target) {
+    return []
+  } else if (!anchor || anchor.laneId !== target.laneId) {
+    return [target.eventId]
+  }
+  const [rangeStart, rangeEnd] = [
+    Math.min(anchor.startTimeMillis, target.startTimeMillis),
+    Math.max(anchor.startTimeMillis, target.startTimeMillis),
+  ]
+  return events
+    .filter((e) => e.laneId === target.laneId && e.startTimeMillis >= rangeStart && e.startTimeMillis <= rangeEnd)
+    .map((e) => e.eventId)
+}
+
+/**
+ * All events overlapping the given time range, whose vertical position lies inside the given (pixel) range.
+ */
+export const selectInsideLasso = <EID, LID>(
+  events: ReadonlyArray<TimelineEvent<EID, LID>>,
+  [timeStart, timeEnd]: Domain,
+  [yStart, yEnd]: Domain,
+  eventY: (event: TimelineEvent<EID, LID>) => number | undefined
+): ReadonlyArray<EID> =>
+  events
+    .filter((e) => {
+      const y = eventY(e)
+      const endTimeMillis = e.endTimeMillis === undefined ? e.startTimeMillis : e.endTimeMillis
+      return y !== undefined && y >= yStart && y <= yEnd && e.startTimeMillis <= timeEnd && endTimeMillis >= timeStart
+    })
+    .map((e) => e.eventId)
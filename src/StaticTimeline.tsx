@@ -0,0 +1,148 @@
+import * as React from 'react'
+import { scaleLinear } from 'd3-scale'
+import { Domain } from './model'
+import { TimelineProps } from './Timeline'
+import { GridLines } from './GridLines'
+import { Markers } from './Markers'
+import { BackgroundRanges } from './BackgroundRanges'
+import { ExpandedMarks } from './ExpandedMarks'
+import { CollapsedMarks } from './CollapsedMarks'
+import { assignDisplayLanes, calcLaneHierarchy } from './LaneHierarchy'
+import { calcLaneLayout } from './LaneLayout'
+import { calcEventStacking } from './EventStacking'
+import { createEventIndex } from './EventIndex'
+import { TimelineThemeProvider, useTimelineTheme } from './TimelineTheme'
+import { noOp } from './shared'
+
+export type StaticTimelineProps<EID, LID> = Pick<
+  TimelineProps<EID, LID>,
+  | 'width'
+  | 'height'
+  | 'events'
+  | 'lanes'
+  | 'timeZone'
+  | 'locale'
+  | 'zoomLadder'
+  | 'theme'
+  | 'eventComponent'
+  | 'laneDisplayMode'
+  | 'expandedLaneIds'
+  | 'stackOverlappingEvents'
+  | 'minLaneHeight'
+  | 'eventAggregation'
+  | 'aggregationThreshold'
+  | 'markers'
+  | 'backgroundRanges'
+> & {
+  /** Displayed time range */
+  domain: Domain
+}
+
+const timeScalePadding = 50
+const hiddenMousePosition = { x: NaN, y: NaN }
+
+/**
+ * Non-interactive rendering of a timeline (grid, lanes and marks, but neither mouse cursor nor trimmer) at a given
+ * domain. Doesn't depend on any browser APIs, i.e. can be rendered on the server (e.g. using `renderToStaticMarkup`).
+ *
+ * Lanes which would have to be scrolled in the interactive timeline are all shown, i.e. the timeline gets higher.
+ */
+export const StaticTimeline = <EID extends string, LID extends string>({
+  width,
+  height,
+  events,
+  lanes,
+  timeZone,
+  locale,
+  zoomLadder,
+  theme: explicitTheme,
+  eventComponent,
+  laneDisplayMode = 'expanded',
+  expandedLaneIds,
+  stackOverlappingEvents = false,
+  minLaneHeight,
+  eventAggregation = 'none',
+  aggregationThreshold = 5,
+  markers,
+  backgroundRanges,
+  domain,
+}: StaticTimelineProps<EID, LID>) => {
+  const contextTheme = useTimelineTheme()
+  const theme = explicitTheme || contextTheme
+
+  const laneHierarchy = calcLaneHierarchy(lanes, (laneId) => !expandedLaneIds || expandedLaneIds.includes(laneId))
+  const displayedEvents = laneDisplayMode === 'expanded' ? assignDisplayLanes(events, laneHierarchy) : events
+  const eventsInsideDomain = createEventIndex(displayedEvents).eventsInside(domain)
+  const stacking = stackOverlappingEvents ? calcEventStacking(displayedEvents) : undefined
+  const layout = calcLaneLayout(
+    laneHierarchy.visibleLanes,
+    height,
+    (laneId) => (stacking ? stacking.subRowCounts.get(laneId) || 1 : 1),
+    minLaneHeight
+  )
+
+  const svgHeight = laneDisplayMode === 'expanded' ? Math.max(height, layout.contentHeight) : height
+
+  const timeScale = scaleLinear()
+    .domain(domain)
+    .range([timeScalePadding, width - timeScalePadding])
+
+  const markProps = {
+    mouseCursor: <g />,
+    mousePosition: hiddenMousePosition,
+    renderMode: 'svg' as const,
+    width,
+    height: svgHeight,
+    events: eventsInsideDomain,
+    timeScale,
+    eventComponent,
+    eventAggregation,
+    aggregationThreshold,
+    onAggregateHover: noOp,
+    onAggregateUnhover: noOp,
+    onAggregateClick: noOp,
+  }
+
+  return (
+    <TimelineThemeProvider value={theme}>
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        width={width}
+        height={svgHeight}
+        viewBox={`0 0 ${width} ${svgHeight}`}
+        fontFamily={theme.base.fontFamily}
+      >
+        <rect width="100%" height="100%" fill={theme.base.backgroundColor} />
+        <GridLines
+          height={svgHeight}
+          domain={domain}
+          timeScale={timeScale}
+          timeZone={timeZone}
+          locale={locale}
+          zoomLadder={zoomLadder}
+        />
+        {backgroundRanges && (
+          <BackgroundRanges
+            ranges={typeof backgroundRanges === 'function' ? backgroundRanges(domain) : backgroundRanges}
+            timeScale={timeScale}
+            width={width}
+            height={svgHeight}
+          />
+        )}
+        {markers && <Markers markers={markers} timeScale={timeScale} height={svgHeight} />}
+        {laneDisplayMode === 'expanded' ? (
+          <ExpandedMarks
+            {...markProps}
+            lanes={laneHierarchy.visibleLanes}
+            layout={layout}
+            scrollTop={0}
+            laneHierarchy={laneHierarchy}
+            stacking={stacking}
+          />
+        ) : (
+          <CollapsedMarks {...markProps} />
+        )}
+      </svg>
+    </TimelineThemeProvider>
+  )
+}
@@ -0,0 +1,80 @@
+import { dayDuration, minuteDuration } from './ZoomScale'
+
+/**
+ * Conversion between timestamps and "wall-clock" timestamps, i.e. timestamps whose UTC fields (year, month, ...,
+ * seconds) are the wall-clock time in a given time zone. Calendar arithmetic (such as the start of a day or adding
+ * hours) on wall-clock timestamps thus uses UTC functions (`Date.UTC`, `getUTCHours`, ...), which – unlike local-time
+ * functions – are unaffected by the DST transitions of the browser's time zone.
+ */
+export interface TimeZoneConversion {
+  toWallClock: (ms: number) => number
+  /** Wall-clock times skipped by a DST transition resolve to a time after the transition */
+  fromWallClock: (wallClockMs: number) => number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+const formatter = (timeZone: string) => {
+  const existing = formatters.get(timeZone)
+  if (existing) {
+    return existing
+  }
+  const created = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  })
+  formatters.set(timeZone, created)
+  return created
+}
+
+/** Wall-clock time in the given time zone, as if it were a UTC timestamp */
+const wallClockMillis = (ms: number, timeZone: string) => {
+  if (!isFinite(ms)) {
+    return NaN
+  }
+  const parts = formatter(timeZone).formatToParts(new Date(ms))
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)!.value)
+  // some engines format midnight as "24"
+  const hour = part('hour') % 24
+  return Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    hour,
+    part('minute'),
+    part('second'),
+    ((ms % 1000) + 1000) % 1000
+  )
+}
+
+const localZoneOffset = (ms: number) => -new Date(ms).getTimezoneOffset() * minuteDuration
+
+const conversion = (zoneOffset: (ms: number) => number): TimeZoneConversion => ({
+  toWallClock: (ms) => ms + zoneOffset(ms),
+  fromWallClock: (wallClockMs) => {
+    // the offset at the guessed instant might differ from the actual one close to DST transitions
+    const guess = wallClockMs - zoneOffset(wallClockMs)
+    return wallClockMs - zoneOffset(guess)
+  },
+})
+
+/**
+ * Conversion for an IANA time zone name (e.g. 'Europe/Zurich' or 'UTC'), or for the browser's zone if undefined.
+ */
+export const timeZoneConversion = (timeZone?: string): TimeZoneConversion =>
+  conversion(timeZone === undefined ? localZoneOffset : (ms) => wallClockMillis(ms, timeZone) - ms)
+
+/** Start of the (wall-clock) day */
+export const startOfWallClockDay = (wallClockMs: number) => Math.floor(wallClockMs / dayDuration) * dayDuration
+
+/** Start of the (wall-clock) week, which starts on Sunday unless specified otherwise (0: Sunday, ..., 6: Saturday) */
+export const startOfWallClockWeek = (wallClockMs: number, weekStartsOn = 0) => {
+  const daysSinceWeekStart = (new Date(wallClockMs).getUTCDay() - weekStartsOn + 7) % 7
+  return startOfWallClockDay(wallClockMs) - daysSinceWeekStart * dayDuration
+}
@@ -1,28 +1,126 @@
-import React, { useEffect, useState } from 'react'
-import { Domain, EventComponentFactory, LaneDisplayMode, TimelineEvent, TimelineLane } from './model'
-import { nextBiggerZoomScale, nextSmallerZoomScale, ZoomScale, zoomScaleWidth } from './ZoomScale'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  BackgroundRangeGenerator,
+  Domain,
+  EventAggregation,
+  EventChange,
+  EventComponentFactory,
+  EventCreation,
+  LaneDisplayMode,
+  RenderMode,
+  TimelineBackgroundRange,
+  TimelineEvent,
+  TimelineLane,
+  TimelineMarker,
+} from './model'
+import {
+  defaultZoomLadder,
+  minZoomLevelWidth,
+  nextBiggerZoomLevel,
+  nextSmallerZoomLevel,
+  ZoomLadder,
+} from './ZoomScale'
 import { scaleLinear } from 'd3-scale'
 import { MouseAwareSvg, SvgCoordinates } from './MouseAwareSvg'
 import { MouseCursor } from './MouseCursor'
 import { GridLines } from './GridLines'
 import { ExpandedMarks } from './ExpandedMarks'
 import { InteractionHandling } from './InteractionHandling'
-import { noOp } from './shared'
+import { clamp, noOp } from './shared'
 import { CollapsedMarks } from './CollapsedMarks'
 import { Trimmer, TrimRange, useTrimming } from './trimmer'
+import { createEventIndex } from './EventIndex'
+import { calcEventStacking } from './EventStacking'
+import { assignDisplayLanes, calcLaneHierarchy } from './LaneHierarchy'
+import { calcEventMarkerHeight, calcLaneLayout } from './LaneLayout'
+import { PartialTimelineMessages, resolveMessages } from './Localization'
+import { TimelineTheme, TimelineThemeProvider, useTimelineTheme } from './TimelineTheme'
+import { useTimelineSync } from './TimelineSync'
+import { Easing, interpolateDomain, linearEasing, usePrefersReducedMotion } from './Animation'
+import { Markers, useNow } from './Markers'
+import { BackgroundRanges } from './BackgroundRanges'
+import { Locale } from 'date-fns'
+import { applyEdit, EditTarget, findEditTarget } from './EventEditing'
+import { selectedEventIds, selectInsideLasso, selectionGesture, selectRange, toggleSelection } from './Selection'
 
 export interface TimelineProps<EID, LID> {
   width: number
   height: number
   events: ReadonlyArray<TimelineEvent<EID, LID>>
   lanes: ReadonlyArray<TimelineLane<LID>>
-  dateFormat: (ms: number) => string
+  /** Also receives `timeZone`, e.g. for the `timeZone` option of `Intl.DateTimeFormat` (the browser's zone if unset) */
+  dateFormat: (ms: number, timeZone?: string) => string
+  /** IANA time zone name (e.g. 'Europe/Zurich' or 'UTC') used for grid lines and labels, the browser's zone if unset */
+  timeZone?: string
+  /** date-fns locale used for grid labels and the first day of the week */
+  locale?: Locale
+  /** Translations of the timeline's own labels, missing ones fall back to English */
+  messages?: PartialTimelineMessages
+  /**
+   * Custom zoom steps (e.g. quarters, shifts or 15-minute slots) replacing the built-in zoom scales (unless empty). Grid
+   * lines still follow the closest built-in zoom scale, e.g. quarters show month lines and shifts show hour lines.
+   */
+  zoomLadder?: ZoomLadder
+  /** Colors, fonts and strokes – if unset, the theme of an enclosing `TimelineThemeProvider` (or the default theme) */
+  theme?: TimelineTheme
   eventComponent?: EventComponentFactory<EID, LID>
   laneDisplayMode?: LaneDisplayMode
+  /** Expanded group lanes (i.e. lanes with children) – if set, expansion is controlled and `onLaneToggle` must be used */
+  expandedLaneIds?: ReadonlyArray<LID>
+  /** Called when the label of a group lane is clicked */
+  onLaneToggle?: (laneId: LID, isExpanded: boolean) => void
+  /** Packs overlapping events into sub-rows of their lane (expanded lanes only) */
+  stackOverlappingEvents?: boolean
+  /** Lanes never get narrower than this (in pixels), the lanes become vertically scrollable instead */
+  minLaneHeight?: number
+  /** 'canvas' draws events onto a canvas, which scales to many more events (but ignores `eventComponent`) */
+  renderMode?: RenderMode
+  /** Shows dense event accumulations as aggregates (event counts or histogram bars), which can be clicked to zoom in */
+  eventAggregation?: EventAggregation
+  /** Number of events per aggregate (of 20 pixels width) above which a lane switches to aggregated marks */
+  aggregationThreshold?: number
   suppressMarkAnimation?: boolean
+  /** Vertical lines annotating points in time, e.g. deployments or releases (drawn above the grid) */
+  markers?: ReadonlyArray<TimelineMarker>
+  /** Shows a marker at the current time, which is updated every `nowMarkerInterval` milliseconds */
+  showNowMarker?: boolean
+  nowMarkerInterval?: number
+  /** Moves the domain along as time passes, such that the present stays at the same position */
+  followNow?: boolean
+  /** Time ranges shaded behind the marks – or a generator of them, e.g. `recurringBackgroundRanges` */
+  backgroundRanges?: ReadonlyArray<TimelineBackgroundRange> | BackgroundRangeGenerator
+  /** Duration (in milliseconds) of animated domain changes, e.g. zooming in – 0 disables animations */
+  animationDuration?: number
+  animationEasing?: Easing
   onEventHover?: (eventId: EID) => void
   onEventUnhover?: (eventId: EID) => void
   onEventClick?: (eventId: EID) => void
+  /**
+   * Enables built-in multi-selection (ctrl/cmd-click to toggle, shift-click for ranges within a lane, ctrl/cmd-drag to
+   * select all events inside a rectangle). The selection itself remains controlled by `TimelineEvent.isSelected`.
+   */
+  onSelectionChange?: (eventIds: ReadonlyArray<EID>) => void
+  /** Called when dragging has moved or resized an editable event (see `TimelineEvent.isEditable`) */
+  onEventChange?: (eventId: EID, change: EventChange<LID>) => void
+  /** Authoring mode: dragging on empty lane space sketches a new period, clicking creates a point event */
+  isAuthoring?: boolean
+  /** Called when a new event has been sketched in authoring mode (expanded lanes only) */
+  onEventCreate?: (event: EventCreation<LID>) => void
+  /**
+   * Visible time range – if set, the timeline is controlled and `onDomainChange` must be used to update it (animations
+   * propose each of their frames, setting any other domain stops them)
+   */
+  domain?: Domain
+  /** Visible time range on first render (uncontrolled mode only) */
+  initialDomain?: Domain
+  /** Earliest time that can be panned or zoomed to (defaults to the start of the events, minus padding) */
+  minTime?: number
+  /** Latest time that can be panned or zoomed to (defaults to the end of the events, plus padding), e.g. in the future */
+  maxTime?: number
+  /** Space around the extent of the events, as a fraction of its width (e.g. 0.05 for 5% on both sides) */
+  domainPadding?: number
+  /** Called whenever user interaction (zoom, pan, animation) wants to change the visible time range */
+  onDomainChange?: (domain: Domain) => void
   onZoomRangeChange?: (startMillis: number, endMillis: number) => void
   onCursorMove?: (millisAtCursor?: number, startMillis?: number, endMillis?: number) => void
   trimRange?: Domain
@@ -39,12 +137,23 @@ type Animation =
     }>
 
 export const calcMaxDomain = <EID, LID>(events: ReadonlyArray<TimelineEvent<EID, LID>>): Domain => {
-  const timeMin = Math.min(...events.map((e) => e.startTimeMillis))
-  const timeMax = Math.max(...events.map((e) => (e.endTimeMillis === undefined ? e.startTimeMillis : e.endTimeMillis)))
+  // explicit loop (instead of spreading into Math.min/max), which works for any number of events
+  let [timeMin, timeMax] = [Infinity, -Infinity]
+  events.forEach((e) => {
+    timeMin = Math.min(timeMin, e.startTimeMillis)
+    timeMax = Math.max(timeMax, e.endTimeMillis === undefined ? e.startTimeMillis : e.endTimeMillis)
+  })
   return [timeMin || NaN, timeMax || NaN]
 }
 
-const animationDuration = 1000
+/** Domain widened by a fraction of its width on both sides */
+export const padDomain = ([start, end]: Domain, padding: number): Domain => {
+  const paddingWidth = (end - start) * padding
+  return [start - paddingWidth, end + paddingWidth]
+}
+
+const timeScalePadding = 50
+const noMarkers: ReadonlyArray<TimelineMarker> = []
 
 export const Timeline = <EID extends string, LID extends string>({
   width,
@@ -52,33 +161,148 @@ export const Timeline = <EID extends string, LID extends string>({
   events,
   lanes,
   dateFormat,
+  timeZone,
+  locale,
+  messages: partialMessages,
+  zoomLadder: customZoomLadder,
+  theme: explicitTheme,
   eventComponent,
   laneDisplayMode = 'expanded',
+  expandedLaneIds,
+  onLaneToggle,
+  stackOverlappingEvents = false,
+  minLaneHeight,
+  renderMode = 'svg',
+  eventAggregation = 'none',
+  aggregationThreshold = 5,
   suppressMarkAnimation = false,
+  markers = noMarkers,
+  showNowMarker = false,
+  nowMarkerInterval = 1000,
+  followNow = false,
+  backgroundRanges,
+  animationDuration: preferredAnimationDuration = 1000,
+  animationEasing = linearEasing,
   onEventHover = noOp,
   onEventUnhover = noOp,
   onEventClick,
+  onSelectionChange,
+  onEventChange,
+  isAuthoring = false,
+  onEventCreate,
+  domain: explicitDomain,
+  initialDomain,
+  minTime,
+  maxTime,
+  domainPadding = 0,
+  onDomainChange,
   onZoomRangeChange,
   onCursorMove,
-  trimRange,
-  onTrimRangeChange,
+  trimRange: explicitTrimRange,
+  onTrimRangeChange: explicitOnTrimRangeChange,
   onInteractionEnd,
 }: TimelineProps<EID, LID>) => {
   {
-    const maxDomain = calcMaxDomain(events)
-    const maxDomainStart = maxDomain[0]
-    const maxDomainEnd = maxDomain[1]
+    // timelines inside of a sync provider share domain, trim range and cursor (unless set explicitly)
+    const sync = useTimelineSync()
+    const [setSyncedDomain, setSyncedTrimRange, setSyncedCursorTime] = sync
+      ? [sync.setDomain, sync.setTrimRange, sync.setCursorTime]
+      : [undefined, undefined, undefined]
+    const controlledDomain = explicitDomain || (sync && sync.domain)
+    const trimRange = explicitTrimRange || (sync && sync.trimRange)
+
+    const onTrimRangeChange = useMemo(
+      () =>
+        setSyncedTrimRange
+          ? (startMillis: number, endMillis: number) => {
+              setSyncedTrimRange([startMillis, endMillis])
+              if (explicitOnTrimRangeChange) {
+                explicitOnTrimRangeChange(startMillis, endMillis)
+              }
+            }
+          : explicitOnTrimRangeChange,
+      [setSyncedTrimRange, explicitOnTrimRangeChange]
+    )
 
-    const [domain, setDomain] = useState<Domain>(maxDomain) // TODO --> onRangeChange-Event when domain changes?
+    const eventsDomain = useMemo(() => calcMaxDomain(events), [events])
+    const [paddedStart, paddedEnd] = padDomain(eventsDomain, domainPadding)
+    // navigable bounds, i.e. the extent of panning and zooming
+    const maxDomainStart = minTime ?? paddedStart
+    const maxDomainEnd = maxTime ?? paddedEnd
+    // the (navigable part of the padded) extent of the events is shown initially and after resetting the zoom
+    const fullDomainStart = Math.max(paddedStart, maxDomainStart)
+    const fullDomainEnd = Math.min(paddedEnd, maxDomainEnd)
+
+    const [internalDomain, setInternalDomain] = useState<Domain>(
+      controlledDomain || initialDomain || [fullDomainStart, fullDomainEnd]
+    )
     const [animation, setAnimation] = useState<Animation>('none')
     const [isMouseOverEvent, setIsMouseOverEvent] = useState(false)
+    const [focusedEventId, setFocusedEventId] = useState<EID | undefined>(undefined)
+    // uncontrolled group lanes are expanded unless collapsed by the user
+    const [collapsedLaneIds, setCollapsedLaneIds] = useState<ReadonlyArray<LID>>([])
+    const [unclampedScrollTop, setScrollTop] = useState(0)
+    // last event clicked without shift, i.e. the start of shift-click ranges
+    const [selectionAnchorId, setSelectionAnchorId] = useState<EID | undefined>(undefined)
+    // event currently being dragged, and its (uncommitted) preview
+    const [eventEdit, setEventEdit] = useState<
+      Readonly<{ target: EditTarget<EID, LID>; preview: TimelineEvent<EID, LID> }> | undefined
+    >(undefined)
+
+    // marks memoize their click handlers (ignoring selection changes), so the actual handler is looked up on click
+    const eventClickHandler = useRef<(eventId: EID, e?: React.MouseEvent) => void>(noOp)
+    const onEventClickLatest = useCallback(
+      (eventId: EID, e?: React.MouseEvent) => eventClickHandler.current(eventId, e),
+      []
+    )
 
     const now = Date.now()
+    const animationDuration = usePrefersReducedMotion() ? 0 : preferredAnimationDuration
+
+    const isDomainControlled = controlledDomain !== undefined
+    const isAnimationInProgress = animation !== 'none'
+
+    // controlling parents own the visible domain, animations merely propose each of their frames via `onDomainChange`
+    const domain = isDomainControlled ? controlledDomain! : internalDomain
+
+    const setDomain = useCallback(
+      (newDomain: Domain) => {
+        setInternalDomain(newDomain)
+        if (setSyncedDomain) {
+          setSyncedDomain(newDomain)
+        }
+        if (onDomainChange) {
+          onDomainChange(newDomain)
+        }
+      },
+      [onDomainChange, setSyncedDomain]
+    )
+
+    // uncontrolled timelines without an explicit initial domain always follow the extent of their events
+    const isFollowingMaxDomain = !isDomainControlled && initialDomain === undefined
+
+    useEffect(() => {
+      if (isFollowingMaxDomain) {
+        setAnimation('none')
+        setInternalDomain([fullDomainStart, fullDomainEnd])
+      }
+    }, [isFollowingMaxDomain, fullDomainStart, fullDomainEnd])
+
+    const presentTime = useNow(nowMarkerInterval, showNowMarker || followNow)
+    // time up to which the domain has followed the present (time passing while not following is skipped)
+    const followedTime = useRef(presentTime)
 
     useEffect(() => {
-      setAnimation('none')
-      setDomain([maxDomainStart, maxDomainEnd])
-    }, [maxDomainStart, maxDomainEnd])
+      if (!followNow) {
+        followedTime.current = Date.now()
+      } else if (presentTime > followedTime.current) {
+        const elapsed = presentTime - followedTime.current
+        followedTime.current = presentTime
+        if (!isAnimationInProgress) {
+          setDomain([domain[0] + elapsed, domain[1] + elapsed])
+        }
+      }
+    }, [presentTime, followNow, isAnimationInProgress, domain, setDomain])
 
     useEffect(() => {
       if (onZoomRangeChange) {
@@ -86,57 +310,156 @@ export const Timeline = <EID extends string, LID extends string>({
       }
     }, [domain, onZoomRangeChange])
 
+    // most recent domain proposed by the animation, any other controlled domain interrupts the animation
+    const animatedDomain = useRef<Domain>()
+    const setAnimatedDomain = useCallback(
+      (newDomain: Domain) => {
+        animatedDomain.current = newDomain
+        setDomain(newDomain)
+      },
+      [setDomain]
+    )
+
     useEffect(() => {
       if (animation !== 'none') {
         const elapsed = now - animation.startMs
         if (elapsed < animationDuration) {
-          const t = elapsed / animationDuration
-          const deltaStart = t * (animation.toDomain[0] - animation.fromDomain[0])
-          const deltaEnd = t * (animation.toDomain[1] - animation.fromDomain[1])
-
-          const animatedDomain: Domain = [animation.fromDomain[0] + deltaStart, animation.fromDomain[1] + deltaEnd]
-          requestAnimationFrame(() => {
-            setDomain(animatedDomain)
-            if (animatedDomain[0] === animation.toDomain[0] && animatedDomain[1] === animation.toDomain[1]) {
-              setAnimation('none')
-            }
-          })
+          const t = animationEasing(elapsed / animationDuration)
+          const frameDomain = interpolateDomain(animation.fromDomain, animation.toDomain, t)
+          // a pending frame must not overwrite the domain of an interrupting animation (or interaction)
+          const frame = requestAnimationFrame(() => setAnimatedDomain(frameDomain))
+          return () => cancelAnimationFrame(frame)
         } else {
-          setDomain(animation.toDomain)
+          setAnimatedDomain(animation.toDomain)
           setAnimation('none')
         }
       }
-    }, [animation, now])
+      return
+    }, [animation, animationDuration, animationEasing, now, setAnimatedDomain])
+
+    const [controlledStart, controlledEnd] = controlledDomain || [NaN, NaN]
+    useEffect(() => {
+      const proposedDomain = animatedDomain.current
+      if (proposedDomain && (proposedDomain[0] !== controlledStart || proposedDomain[1] !== controlledEnd)) {
+        setAnimation('none')
+      }
+    }, [controlledStart, controlledEnd])
+
+    const laneHierarchy = useMemo(
+      () =>
+        calcLaneHierarchy(lanes, (laneId) =>
+          expandedLaneIds ? expandedLaneIds.includes(laneId) : !collapsedLaneIds.includes(laneId)
+        ),
+      [lanes, expandedLaneIds, collapsedLaneIds]
+    )
 
-    const eventsInsideDomain = events.filter((e) => {
-      const isStartInView = e.startTimeMillis >= domain[0] && e.startTimeMillis <= domain[1]
-      const isEndInView = e.endTimeMillis && e.endTimeMillis >= domain[0] && e.endTimeMillis <= domain[1]
-      const isSpanningAcrossView = e.endTimeMillis && e.startTimeMillis < domain[0] && e.endTimeMillis > domain[1]
-      return isStartInView || isEndInView || isSpanningAcrossView
-    })
+    const onLaneLabelClick = useCallback(
+      (laneId: LID) => {
+        const isExpanded = laneHierarchy.isExpanded(laneId)
+        if (!expandedLaneIds) {
+          setCollapsedLaneIds(
+            isExpanded ? [...collapsedLaneIds, laneId] : collapsedLaneIds.filter((id) => id !== laneId)
+          )
+        }
+        if (onLaneToggle) {
+          onLaneToggle(laneId, !isExpanded)
+        }
+      },
+      [laneHierarchy, expandedLaneIds, collapsedLaneIds, onLaneToggle]
+    )
+
+    // events of collapsed groups are shown in the group's lane
+    const displayedEvents = useMemo(
+      () => (laneDisplayMode === 'expanded' ? assignDisplayLanes(events, laneHierarchy) : events),
+      [events, laneHierarchy, laneDisplayMode]
+    )
+
+    const eventIndex = useMemo(() => createEventIndex(displayedEvents), [displayedEvents])
+    const eventsInsideDomain = useMemo(() => {
+      const insideDomain = eventIndex.eventsInside(domain)
+      return eventEdit
+        ? [...insideDomain.filter((e) => e.eventId !== eventEdit.preview.eventId), eventEdit.preview]
+        : insideDomain
+    }, [eventIndex, domain, eventEdit])
+
+    // stacking is based on all events (not only the visible ones), such that lanes don't change height while panning
+    const stacking = useMemo(() => (stackOverlappingEvents ? calcEventStacking(displayedEvents) : undefined), [
+      displayedEvents,
+      stackOverlappingEvents,
+    ])
+
+    const laneLayout = useMemo(
+      () =>
+        calcLaneLayout(
+          laneHierarchy.visibleLanes,
+          height,
+          (laneId) => (stacking ? stacking.subRowCounts.get(laneId) || 1 : 1),
+          minLaneHeight
+        ),
+      [laneHierarchy, height, stacking, minLaneHeight]
+    )
+
+    // collapsing groups or resizing might leave the previous scroll position out of range
+    const maxScrollTop = laneDisplayMode === 'expanded' ? laneLayout.contentHeight - height : 0
+    const scrollTop = clamp(unclampedScrollTop, 0, maxScrollTop)
+    const isScrollable = maxScrollTop > 0
+
+    const onScroll = useCallback(
+      (pixelDelta: number) => setScrollTop((scrollTop) => clamp(scrollTop + pixelDelta, 0, maxScrollTop)),
+      [maxScrollTop]
+    )
+
+    const messages = useMemo(() => resolveMessages(partialMessages), [partialMessages])
+
+    const zoomLadder = useMemo(
+      () =>
+        customZoomLadder && customZoomLadder.length > 0
+          ? customZoomLadder
+          : defaultZoomLadder((scale) => messages.zoomScales[scale]),
+      [customZoomLadder, messages]
+    )
+    const minZoomWidth = minZoomLevelWidth(zoomLadder)
 
     const isNoEventSelected = eventsInsideDomain.filter((e) => e.isSelected).length === 0
-    const smallerZoomScale = nextSmallerZoomScale(domain)
-    const biggerZoomScale = nextBiggerZoomScale(domain)
-    const zoomWidth = zoomScaleWidth(smallerZoomScale)
+    const smallerZoomLevel = nextSmallerZoomLevel(domain, zoomLadder)
+    const biggerZoomLevel = nextBiggerZoomLevel(domain, zoomLadder)
+    const zoomWidth = smallerZoomLevel ? smallerZoomLevel.durationMillis : 0
     const currentDomainWidth = domain[1] - domain[0]
     const maxDomainWidth = maxDomainEnd - maxDomainStart
 
-    const isZoomInPossible = smallerZoomScale !== 'minimum'
+    const isZoomInPossible = smallerZoomLevel !== undefined
     const isZoomOutPossible = currentDomainWidth < maxDomainWidth
-    const isAnimationInProgress = animation !== 'none'
-    const isDomainChangePossible = !isAnimationInProgress && !isMouseOverEvent
+    const isDomainChangePossible = !isMouseOverEvent
 
     const showMarks = suppressMarkAnimation ? !isAnimationInProgress : true
 
-    return (
-      <MouseAwareSvg width={width} height={height}>
-        {(mousePosition: SvgCoordinates) => {
-          const timeScalePadding = 50
-          const timeScale = scaleLinear()
-            .domain(domain)
-            .range([timeScalePadding, width - timeScalePadding])
+    const contextTheme = useTimelineTheme()
+    const theme = explicitTheme || contextTheme
+
+    const nowMarkerColor = theme.marker.nowColor
+    const visibleMarkers = useMemo(
+      () =>
+        showNowMarker ? [...markers, { timeMillis: presentTime, label: messages.now, color: nowMarkerColor }] : markers,
+      [markers, showNowMarker, presentTime, messages.now, nowMarkerColor]
+    )
+
+    const zonedDateFormat = useCallback((ms: number) => dateFormat(ms, timeZone), [dateFormat, timeZone])
+
+    const timeScale = useMemo(
+      () =>
+        scaleLinear()
+          .domain(domain)
+          .range([timeScalePadding, width - timeScalePadding]),
+      [domain, width]
+    )
 
+    const timeline = (
+      <MouseAwareSvg
+        width={width}
+        height={height}
+        onPointerLeave={setSyncedCursorTime && (() => setSyncedCursorTime(undefined))}
+      >
+        {(mousePosition: SvgCoordinates) => {
           const timeAtCursor = timeScale.invert(mousePosition.x)
 
           const getDomainSpan = (time: number, width: number): Domain => [
@@ -144,24 +467,44 @@ export const Timeline = <EID extends string, LID extends string>({
             Math.min(maxDomainEnd, time + width / 2),
           ]
 
-          const setDomainAnimated = (newDomain: Domain) =>
-            setAnimation({ startMs: Date.now(), fromDomain: domain, toDomain: newDomain })
+          // immediate domain changes (e.g. panning) interrupt any ongoing animation
+          const setDomainImmediately = (newDomain: Domain) => {
+            setAnimation('none')
+            setDomain(newDomain)
+          }
 
-          const updateDomain = (zoomScale: ZoomScale) => () => {
+          // a new animation starts wherever an ongoing one has got to
+          const setDomainAnimated = (newDomain: Domain) => {
+            if (animationDuration > 0) {
+              setInternalDomain(domain)
+              animatedDomain.current = domain
+              setAnimation({ startMs: Date.now(), fromDomain: domain, toDomain: newDomain })
+            } else {
+              setDomainImmediately(newDomain)
+            }
+          }
+
+          // keyboard zooming is possible without hovering (in which case the zoom is centered)
+          const zoomAnchorTime = isNaN(timeAtCursor) ? (domain[0] + domain[1]) / 2 : timeAtCursor
+
+          const updateDomain = (newZoomWidth: number) => () => {
             if (isDomainChangePossible) {
-              const newZoomWidth = zoomScaleWidth(zoomScale)
-              setDomainAnimated(getDomainSpan(timeAtCursor, newZoomWidth))
+              setDomainAnimated(getDomainSpan(zoomAnchorTime, newZoomWidth))
             }
           }
 
           const onZoomScrub = () => {
+            if (setSyncedCursorTime) {
+              setSyncedCursorTime(timeAtCursor)
+            }
             if (onCursorMove) {
               onCursorMove(timeAtCursor, ...getDomainSpan(timeAtCursor, zoomWidth))
             }
           }
 
-          const onZoomIn = updateDomain(smallerZoomScale)
-          const onZoomOut = updateDomain(biggerZoomScale)
+          // zooming out beyond the biggest zoom level shows all events
+          const onZoomIn = updateDomain(zoomWidth)
+          const onZoomOut = updateDomain(biggerZoomLevel ? biggerZoomLevel.durationMillis : Number.MAX_SAFE_INTEGER)
 
           const onZoomInCustom = (mouseStartX: number, mouseEndX: number) => {
             if (isDomainChangePossible) {
@@ -171,6 +514,20 @@ export const Timeline = <EID extends string, LID extends string>({
             }
           }
 
+          const onZoomByFactor = (zoomFactor: number, anchorX: number, targetX: number = anchorX) => {
+            if (isDomainChangePossible && currentDomainWidth > 0) {
+              // move the time at the anchor to the target position, shift the resulting domain back inside the max domain
+              const [rangeMin, rangeMax] = timeScale.range()
+              const [anchorTime, targetRatio] = isNaN(anchorX)
+                ? [(domain[0] + domain[1]) / 2, 0.5]
+                : [timeScale.invert(anchorX), (targetX - rangeMin) / (rangeMax - rangeMin)]
+              const newWidth = clamp(currentDomainWidth * zoomFactor, minZoomWidth, maxDomainWidth)
+              const newStart = anchorTime - targetRatio * newWidth
+              const clampedStart = clamp(newStart, maxDomainStart, maxDomainEnd - newWidth)
+              setDomainImmediately([clampedStart, clampedStart + newWidth])
+            }
+          }
+
           const onZoomInCustomInProgress = (mouseStartX: number, mouseEndX: number) => {
             if (isDomainChangePossible && onCursorMove) {
               const newMin = timeScale.invert(mouseStartX)
@@ -181,7 +538,7 @@ export const Timeline = <EID extends string, LID extends string>({
 
           const onZoomReset = () => {
             if (isDomainChangePossible) {
-              setDomainAnimated([maxDomainStart, maxDomainEnd])
+              setDomainAnimated([fullDomainStart, fullDomainEnd])
             }
           }
 
@@ -190,13 +547,177 @@ export const Timeline = <EID extends string, LID extends string>({
               const [domainMin, domainMax] = domain
               const [rangeMin, rangeMax] = timeScale.range()
               const domainDelta = (pixelDelta / (rangeMax - rangeMin)) * (domainMax - domainMin)
-              const [newDomainMin, newDomainMax] = [domainMin + domainDelta, domainMax + domainDelta]
-              if (newDomainMin > maxDomainStart && newDomainMax < maxDomainEnd) {
-                setDomain([newDomainMin, newDomainMax])
+              // panning stops at the bounds (a domain already exceeding a bound cannot move further beyond it)
+              const clampedDelta = clamp(
+                domainDelta,
+                Math.min(maxDomainStart - domainMin, 0),
+                Math.max(maxDomainEnd - domainMax, 0)
+              )
+              if (clampedDelta !== 0) {
+                setDomainImmediately([domainMin + clampedDelta, domainMax + clampedDelta])
               }
             }
           }
 
+          const onPanToEdge = (edge: 'start' | 'end') => {
+            if (isDomainChangePossible) {
+              setDomainAnimated(
+                edge === 'start'
+                  ? [maxDomainStart, maxDomainStart + currentDomainWidth]
+                  : [maxDomainEnd - currentDomainWidth, maxDomainEnd]
+              )
+            }
+          }
+
+          const onEventFocusMove = (direction: 'next' | 'previous' | 'none') => {
+            const focusableEvents = [...eventsInsideDomain].sort((a, b) => a.startTimeMillis - b.startTimeMillis)
+            const focusedIndex = focusableEvents.findIndex((e) => e.eventId === focusedEventId)
+            const nextFocusedEvent =
+              direction === 'none'
+                ? undefined
+                : direction === 'next'
+                ? focusableEvents[focusedIndex + 1]
+                : focusableEvents[focusedIndex < 0 ? focusableEvents.length - 1 : focusedIndex - 1]
+
+            if (focusedEventId !== undefined) {
+              onEventUnhover(focusedEventId)
+            }
+            if (nextFocusedEvent) {
+              onEventHover(nextFocusedEvent.eventId)
+            }
+            setFocusedEventId(nextFocusedEvent?.eventId)
+            return nextFocusedEvent !== undefined
+          }
+
+          const onFocusedEventClick = () => {
+            if (focusedEventId !== undefined && onEventClick) {
+              onEventClick(focusedEventId)
+            }
+          }
+
+          const onAggregateHover = () => setIsMouseOverEvent(true)
+          const onAggregateUnhover = () => setIsMouseOverEvent(false)
+
+          const onAggregateClick = ([eventsStart, eventsEnd]: Domain) => {
+            setIsMouseOverEvent(false)
+            const eventsCenter = (eventsStart + eventsEnd) / 2
+            const newWidth = Math.max(eventsEnd - eventsStart, minZoomWidth)
+            setDomainAnimated(getDomainSpan(eventsCenter, newWidth))
+          }
+
+          const onEventClickDecorated = (eventId: EID, e?: React.MouseEvent) => {
+            const gesture = onSelectionChange && e ? selectionGesture(e) : 'none'
+            if (gesture === 'toggle') {
+              onSelectionChange!(toggleSelection(selectedEventIds(events), eventId))
+            } else if (gesture === 'range') {
+              onSelectionChange!(selectRange(displayedEvents, selectionAnchorId, eventId))
+              return
+            } else if (onEventClick) {
+              onEventClick(eventId)
+            }
+            setSelectionAnchorId(eventId)
+          }
+          eventClickHandler.current = onEventClickDecorated
+
+          // vertical center of an event's mark (relative to the viewport)
+          const eventY = (e: TimelineEvent<EID, LID>) => {
+            if (laneDisplayMode === 'collapsed') {
+              return height / 2
+            }
+            const subRow = stacking ? stacking.subRows.get(e.eventId) || 0 : 0
+            const y = laneLayout.rowY(e.laneId, subRow)
+            return y === undefined ? undefined : y - scrollTop
+          }
+
+          const eventMarkerHeight = calcEventMarkerHeight(laneLayout, laneDisplayMode === 'expanded' && !!stacking)
+          const editTargetAt = (position: SvgCoordinates) =>
+            onEventChange
+              ? findEditTarget(eventsInsideDomain, position, timeScale, eventY, eventMarkerHeight)
+              : undefined
+          const editTargetAtCursor = eventEdit ? undefined : editTargetAt(mousePosition)
+
+          const onEditStart = (position: SvgCoordinates) => {
+            const target = editTargetAt(position)
+            setEventEdit(target && { target, preview: target.event })
+          }
+
+          const onEdit = (anchor: SvgCoordinates, current: SvgCoordinates) => {
+            if (eventEdit) {
+              const { target } = eventEdit
+              const timeDelta = timeScale.invert(current.x) - timeScale.invert(anchor.x)
+              const laneId =
+                laneDisplayMode === 'expanded' && target.variant === 'move'
+                  ? laneLayout.laneIdAt(current.y + scrollTop) || target.event.laneId
+                  : target.event.laneId
+              setEventEdit({ target, preview: applyEdit(target, timeDelta, laneId) })
+            }
+          }
+
+          const onEditEnd = () => {
+            if (eventEdit && onEventChange) {
+              const { target, preview } = eventEdit
+              const isLaneChanged = preview.laneId !== target.event.laneId
+              if (
+                isLaneChanged ||
+                preview.startTimeMillis !== target.event.startTimeMillis ||
+                preview.endTimeMillis !== target.event.endTimeMillis
+              ) {
+                // events of collapsed groups are displayed in the group's lane, but stay in their own lane
+                const originalEvent = events.find((e) => e.eventId === target.event.eventId)
+                onEventChange(preview.eventId, {
+                  startTimeMillis: preview.startTimeMillis,
+                  endTimeMillis: preview.endTimeMillis,
+                  laneId: isLaneChanged || !originalEvent ? preview.laneId : originalEvent.laneId,
+                })
+              }
+            }
+            setEventEdit(undefined)
+          }
+
+          const onEditCancel = () => setEventEdit(undefined)
+
+          const isSketchingPossible =
+            isAuthoring && onEventCreate !== undefined && laneDisplayMode === 'expanded' && !isMouseOverEvent
+
+          const onSketchEnd = (anchor: SvgCoordinates, endX?: number) => {
+            const laneId = laneLayout.laneIdAt(anchor.y + scrollTop)
+            if (onEventCreate && laneId !== undefined) {
+              onEventCreate(
+                endX === undefined
+                  ? { laneId, startTimeMillis: timeScale.invert(anchor.x) }
+                  : {
+                      laneId,
+                      startTimeMillis: timeScale.invert(Math.min(anchor.x, endX)),
+                      endTimeMillis: timeScale.invert(Math.max(anchor.x, endX)),
+                    }
+              )
+            }
+          }
+
+          // the sketched period spans the lane at which sketching started
+          const sketchBand = (anchor: SvgCoordinates) => {
+            const laneId = laneLayout.laneIdAt(anchor.y + scrollTop)
+            const rowCount = laneId !== undefined && stacking ? stacking.subRowCounts.get(laneId) || 1 : 1
+            const laneY = laneId === undefined ? undefined : laneLayout.laneY(laneId)
+            return laneY === undefined
+              ? undefined
+              : {
+                  y: laneY - scrollTop - laneLayout.bandwidth / 2,
+                  height: (rowCount - 1) * laneLayout.rowStep + laneLayout.bandwidth,
+                }
+          }
+
+          const onLasso = (start: SvgCoordinates, end: SvgCoordinates) => {
+            if (onSelectionChange) {
+              const timeRange: Domain = [
+                timeScale.invert(Math.min(start.x, end.x)),
+                timeScale.invert(Math.max(start.x, end.x)),
+              ]
+              const yRange: Domain = [Math.min(start.y, end.y), Math.max(start.y, end.y)]
+              onSelectionChange(selectInsideLasso(eventIndex.eventsInside(timeRange), timeRange, yRange, eventY))
+            }
+          }
+
           const onEventHoverDecorated = (eventId: EID) => {
             setIsMouseOverEvent(true)
             onEventHover(eventId)
@@ -212,7 +733,6 @@ export const Timeline = <EID extends string, LID extends string>({
           return (
             <InteractionHandling
               mousePosition={mousePosition}
-              isAnimationInProgress={isAnimationInProgress}
               isZoomInPossible={isZoomInPossible}
               isZoomOutPossible={isZoomOutPossible}
               onHover={onZoomScrub}
@@ -220,24 +740,42 @@ export const Timeline = <EID extends string, LID extends string>({
               onZoomOut={onZoomOut}
               onZoomInCustom={onZoomInCustom}
               onZoomInCustomInProgress={onZoomInCustomInProgress}
+              onZoomByFactor={onZoomByFactor}
               onZoomReset={onZoomReset}
               onPan={onPan}
+              onScroll={isScrollable ? onScroll : undefined}
+              onPanToEdge={onPanToEdge}
+              onEventFocusMove={onEventFocusMove}
+              onFocusedEventClick={onFocusedEventClick}
+              onLasso={onSelectionChange ? onLasso : undefined}
+              editVariant={editTargetAtCursor && editTargetAtCursor.variant}
+              onEditStart={onEditStart}
+              onEdit={onEdit}
+              onEditEnd={onEditEnd}
+              onEditCancel={onEditCancel}
+              isSketchingPossible={isSketchingPossible}
+              onSketchEnd={onSketchEnd}
               onTrimStart={onTrimStart}
               onTrimEnd={onTrimEnd}
               onInteractionEnd={onInteractionEnd}
             >
               {(cursor, interactionMode, setTrimHoverMode) => {
                 const mouseCursor =
-                  isNoEventSelected && interactionMode.type !== 'trim' ? (
+                  (isNoEventSelected || interactionMode.type === 'lasso' || interactionMode.type === 'sketching') &&
+                  interactionMode.type !== 'trim' ? (
                     <MouseCursor
                       mousePosition={mousePosition.x}
-                      cursorLabel={dateFormat(timeAtCursor)}
+                      cursorLabel={zonedDateFormat(timeAtCursor)}
                       cursor={cursor}
                       interactionMode={interactionMode}
                       zoomRangeStart={timeScale(timeAtCursor - zoomWidth / 2)!}
                       zoomRangeEnd={timeScale(timeAtCursor + zoomWidth / 2)!}
-                      zoomScale={smallerZoomScale}
+                      zoomScaleLabel={smallerZoomLevel ? smallerZoomLevel.label : ''}
                       isZoomInPossible={isZoomInPossible}
+                      sketchBand={interactionMode.type === 'sketching' ? sketchBand(interactionMode.anchor) : undefined}
+                      syncedCursorPosition={
+                        sync && sync.cursorTime !== undefined ? timeScale(sync.cursorTime) : undefined
+                      }
                     />
                   ) : (
                     <g />
@@ -245,30 +783,67 @@ export const Timeline = <EID extends string, LID extends string>({
 
                 return (
                   <g>
-                    <GridLines height={height} domain={domain} timeScale={timeScale} />
+                    <GridLines
+                      height={height}
+                      domain={domain}
+                      timeScale={timeScale}
+                      timeZone={timeZone}
+                      locale={locale}
+                      zoomLadder={zoomLadder}
+                    />
+                    {backgroundRanges && (
+                      <BackgroundRanges
+                        ranges={typeof backgroundRanges === 'function' ? backgroundRanges(domain) : backgroundRanges}
+                        timeScale={timeScale}
+                        width={width}
+                        height={height}
+                      />
+                    )}
+                    <Markers markers={visibleMarkers} timeScale={timeScale} height={height} />
                     {showMarks &&
                       (laneDisplayMode === 'expanded' ? (
                         <ExpandedMarks
                           mouseCursor={mouseCursor}
+                          mousePosition={mousePosition}
+                          renderMode={renderMode}
+                          width={width}
                           events={eventsInsideDomain}
-                          lanes={lanes}
+                          lanes={laneHierarchy.visibleLanes}
+                          layout={laneLayout}
+                          scrollTop={scrollTop}
+                          laneHierarchy={laneHierarchy}
+                          onLaneLabelClick={onLaneLabelClick}
+                          stacking={stacking}
                           timeScale={timeScale}
                           height={height}
                           eventComponent={eventComponent}
                           onEventHover={onEventHoverDecorated}
                           onEventUnhover={onEventUnhoverDecorated}
-                          onEventClick={onEventClick}
+                          onEventClick={onEventClickLatest}
+                          eventAggregation={eventAggregation}
+                          aggregationThreshold={aggregationThreshold}
+                          onAggregateHover={onAggregateHover}
+                          onAggregateUnhover={onAggregateUnhover}
+                          onAggregateClick={onAggregateClick}
                         />
                       ) : (
                         <CollapsedMarks
                           mouseCursor={mouseCursor}
+                          mousePosition={mousePosition}
+                          renderMode={renderMode}
+                          width={width}
                           events={eventsInsideDomain}
                           timeScale={timeScale}
                           height={height}
                           eventComponent={eventComponent}
                           onEventHover={onEventHoverDecorated}
                           onEventUnhover={onEventUnhoverDecorated}
-                          onEventClick={onEventClick}
+                          onEventClick={onEventClickLatest}
+                          eventAggregation={eventAggregation}
+                          aggregationThreshold={aggregationThreshold}
+                          onAggregateHover={onAggregateHover}
+                          onAggregateUnhover={onAggregateUnhover}
+                          onAggregateClick={onAggregateClick}
                         />
                       ))}
                     {trimRange && (
@@ -286,7 +861,8 @@ export const Timeline = <EID extends string, LID extends string>({
                         height={height}
                         timeScale={timeScale}
                         setTrimMode={setTrimHoverMode}
-                        dateFormat={dateFormat}
+                        dateFormat={zonedDateFormat}
+                        messages={messages}
                       />
                     )}
                   </g>
@@ -297,5 +873,7 @@ export const Timeline = <EID extends string, LID extends string>({
         }}
       </MouseAwareSvg>
     )
+
+    return <TimelineThemeProvider value={theme}>{timeline}</TimelineThemeProvider>
   }
 }
@@ -0,0 +1,208 @@
+import * as React from 'react'
+import { useMemo, useRef, useState } from 'react'
+import { scaleLinear } from 'd3-scale'
+import { Cursor, Domain, TimelineEvent } from './model'
+import { calcMaxDomain, padDomain } from './Timeline'
+import { binEvents, bucketWidth } from './Aggregation'
+import { EditVariant } from './EventEditing'
+import { mapToSvgCoordinates } from './MouseAwareSvg'
+import { minZoomScaleWidth } from './ZoomScale'
+import { TrimRange } from './trimmer'
+import { TimelineTheme, TimelineThemeProvider, useTimelineTheme } from './TimelineTheme'
+import { clamp } from './shared'
+
+/** Horizontal extent (in pixels) of the area around the brush edges which resizes instead of moving */
+const brushHandleWidth = 6
+
+export interface TimelineOverviewProps<EID, LID> {
+  width: number
+  height: number
+  events: ReadonlyArray<TimelineEvent<EID, LID>>
+  /** Time range shown by the main timeline, i.e. the extent of the brush */
+  domain: Domain
+  onDomainChange: (domain: Domain) => void
+  /** Navigable bounds like those of the main timeline, i.e. `minTime`, `maxTime` and `domainPadding` should match */
+  minTime?: number
+  maxTime?: number
+  domainPadding?: number
+  theme?: TimelineTheme
+}
+
+/**
+ * Domain resulting from moving or resizing the brush by a given time delta, kept inside of `maxDomain` (a domain
+ * already exceeding a bound, e.g. one wider than `maxDomain`, cannot move further beyond it)
+ */
+export const brushDomain = (
+  variant: EditVariant,
+  [start, end]: Domain,
+  timeDelta: number,
+  [maxStart, maxEnd]: Domain,
+  minWidth: number = minZoomScaleWidth
+): Domain => {
+  switch (variant) {
+    case 'move': {
+      const delta = clamp(timeDelta, Math.min(maxStart - start, 0), Math.max(maxEnd - end, 0))
+      return [start + delta, end + delta]
+    }
+    case 'resize start':
+      return [clamp(start + timeDelta, Math.min(maxStart, start), end - minWidth), end]
+    case 'resize end':
+      return [start, clamp(end + timeDelta, start + minWidth, Math.max(maxEnd, end))]
+  }
+}
+
+/** Domain of the same width, centered at a given time (as far as `maxDomain` allows) */
+export const recenterDomain = (domain: Domain, time: number, maxDomain: Domain): Domain =>
+  brushDomain('move', domain, time - (domain[0] + domain[1]) / 2, maxDomain)
+
+interface Drag {
+  variant: EditVariant
+  anchorTime: number
+  fromDomain: Domain
+}
+
+const brushCursors: Record<EditVariant, Cursor> = {
+  move: 'grab',
+  'resize start': 'ew-resize',
+  'resize end': 'ew-resize',
+}
+
+/**
+ * Condensed view of all events (as a histogram), with a brush showing the domain of the main timeline.
+ *
+ * Dragging the brush pans, dragging its edges zooms, and clicking outside of it recenters the domain. To stay in sync
+ * with the main timeline (including its animations), both should share a controlled `domain`.
+ */
+export const TimelineOverview = <EID extends string, LID extends string>({
+  width,
+  height,
+  events,
+  domain,
+  onDomainChange,
+  minTime,
+  maxTime,
+  domainPadding = 0,
+  theme: explicitTheme,
+}: TimelineOverviewProps<EID, LID>) => {
+  const contextTheme = useTimelineTheme()
+  const theme = explicitTheme || contextTheme
+
+  const svg = useRef<SVGSVGElement>(null)
+  const [drag, setDrag] = useState<Drag | undefined>(undefined)
+  const [hoveredVariant, setHoveredVariant] = useState<EditVariant | undefined>(undefined)
+
+  const maxDomain = useMemo((): Domain => {
+    const [paddedStart, paddedEnd] = padDomain(calcMaxDomain(events), domainPadding)
+    return [minTime ?? paddedStart, maxTime ?? paddedEnd]
+  }, [events, domainPadding, minTime, maxTime])
+  const timeScale = useMemo(
+    () =>
+      scaleLinear()
+        .domain(maxDomain)
+        .range([brushHandleWidth, width - brushHandleWidth]),
+    [maxDomain, width]
+  )
+  const buckets = useMemo(() => binEvents(events, timeScale), [events, timeScale])
+  const maxCount = buckets.reduce((max, b) => Math.max(max, b.events.length), 0)
+
+  const [brushStartX, brushEndX] = [timeScale(domain[0])!, timeScale(domain[1])!]
+
+  const pointerX = (e: React.PointerEvent) => (svg.current ? mapToSvgCoordinates(svg.current, e).x : NaN)
+
+  const variantAt = (x: number): EditVariant | undefined => {
+    if (Math.abs(x - brushStartX) <= brushHandleWidth / 2) {
+      return 'resize start'
+    } else if (Math.abs(x - brushEndX) <= brushHandleWidth / 2) {
+      return 'resize end'
+    } else if (x > brushStartX && x < brushEndX) {
+      return 'move'
+    } else {
+      return undefined
+    }
+  }
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    const x = pointerX(e)
+    const time = timeScale.invert(x)
+    const variant = variantAt(x)
+    e.currentTarget.setPointerCapture(e.pointerId)
+    if (variant) {
+      setDrag({ variant, anchorTime: time, fromDomain: domain })
+    } else {
+      // recentering continues as a move, such that the brush can be dragged right away
+      const recentered = recenterDomain(domain, time, maxDomain)
+      onDomainChange(recentered)
+      setDrag({ variant: 'move', anchorTime: time, fromDomain: recentered })
+    }
+  }
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const x = pointerX(e)
+    if (drag) {
+      onDomainChange(brushDomain(drag.variant, drag.fromDomain, timeScale.invert(x) - drag.anchorTime, maxDomain))
+    } else {
+      setHoveredVariant(variantAt(x))
+    }
+  }
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    e.currentTarget.releasePointerCapture(e.pointerId)
+    setDrag(undefined)
+  }
+
+  const activeVariant = drag ? drag.variant : hoveredVariant
+  const cursor = activeVariant ? brushCursors[activeVariant] : 'default'
+  const isEmpty = events.length === 0
+
+  const overview = (
+    <svg
+      ref={svg}
+      width={width}
+      height={height}
+      style={{ touchAction: 'none', cursor }}
+      onPointerDown={isEmpty ? undefined : onPointerDown}
+      onPointerMove={isEmpty ? undefined : onPointerMove}
+      onPointerUp={isEmpty ? undefined : onPointerUp}
+      onPointerLeave={() => setHoveredVariant(undefined)}
+    >
+      <rect width="100%" height="100%" fill={theme.base.backgroundColor} />
+      {!isEmpty && (
+        <g>
+          {buckets.map((bucket) => {
+            const barHeight = (bucket.events.length / maxCount) * height
+            return (
+              <rect
+                key={bucket.binDomain[0]}
+                x={timeScale(bucket.binDomain[0])!}
+                y={height - barHeight}
+                width={bucketWidth}
+                height={barHeight}
+                fill={theme.event.color}
+                fillOpacity={theme.event.opacity}
+                stroke={theme.base.backgroundColor}
+              />
+            )
+          })}
+          <TrimRange
+            startX={clamp(brushStartX, 0, width)}
+            endX={clamp(brushEndX, 0, width)}
+            height={height}
+            width={width}
+          />
+          <rect
+            x={brushStartX}
+            y={0}
+            width={Math.max(brushEndX - brushStartX, 0)}
+            height={height}
+            fill={theme.mouseCursor.zoomRangeColor}
+            fillOpacity={theme.mouseCursor.zoomRangeOpacity}
+            stroke={theme.mouseCursor.lineColor}
+            strokeWidth={theme.mouseCursor.lineWidth}
+          />
+        </g>
+      )}
+    </svg>
+  )
+
+  return <TimelineThemeProvider value={theme}>{overview}</TimelineThemeProvider>
+}
@@ -0,0 +1,46 @@
+import * as React from 'react'
+import { useContext, useMemo, useState } from 'react'
+import { Domain } from './model'
+
+/** State shared by all timelines inside of a `TimelineSyncProvider` */
+export interface TimelineSync {
+  /** Visible time range, `undefined` until one of the timelines changes it (or an initial domain is given) */
+  domain?: Domain
+  setDomain: (domain: Domain) => void
+  trimRange?: Domain
+  setTrimRange: (trimRange: Domain) => void
+  /** Time at the mouse cursor of the hovered timeline, `undefined` if none is hovered */
+  cursorTime?: number
+  setCursorTime: (cursorTime?: number) => void
+}
+
+const TimelineSyncContext = React.createContext<TimelineSync | undefined>(undefined)
+
+interface Props {
+  initialDomain?: Domain
+  initialTrimRange?: Domain
+  children: React.ReactNode
+}
+
+/**
+ * Synchronizes zooming, panning, trimming and the mouse cursor of all timelines below. The timelines may have different
+ * lanes and widths, since only times (rather than pixels) are shared.
+ *
+ * Explicit `domain` and `trimRange` props of a timeline take precedence over the synchronized ones.
+ */
+export const TimelineSyncProvider = ({ initialDomain, initialTrimRange, children }: Props) => {
+  const [domain, setDomain] = useState<Domain | undefined>(initialDomain)
+  const [trimRange, setTrimRange] = useState<Domain | undefined>(initialTrimRange)
+  const [cursorTime, setCursorTime] = useState<number | undefined>(undefined)
+
+  const sync = useMemo(() => ({ domain, setDomain, trimRange, setTrimRange, cursorTime, setCursorTime }), [
+    domain,
+    trimRange,
+    cursorTime,
+  ])
+
+  return <TimelineSyncContext.Provider value={sync}>{children}</TimelineSyncContext.Provider>
+}
+
+/** State of the enclosing `TimelineSyncProvider`, `undefined` if there is none */
+export const useTimelineSync = () => useContext(TimelineSyncContext)
@@ -0,0 +1,187 @@
+import * as React from 'react'
+import { useContext } from 'react'
+
+export interface TimelineTheme {
+  base: {
+    /** Opaque background drawn behind event marks (and around them as a separator) */
+    backgroundColor: string
+    fontFamily: string
+    textColor: string
+  }
+  event: {
+    /** Default color of events without an explicit `color` */
+    color: string
+    opacity: number
+    strokeWidth: number
+    selectedColor: string
+    selectedStrokeColor: string
+    pinnedStrokeColor: string
+  }
+  lane: {
+    /** Default color of lane labels without an explicit `color` */
+    labelColor: string
+    labelFontWeight: number
+    labelOpacity: number
+    axisColor: string
+    axisStrokeWidth: number
+  }
+  grid: {
+    lineColor: string
+    labelColor: string
+    labelOpacity: number
+    weekStripeColor: string
+    weekStripeOpacity: number
+    /** Default color of background ranges without an explicit `color` */
+    rangeColor: string
+    rangeOpacity: number
+  }
+  mouseCursor: {
+    lineColor: string
+    lineWidth: number
+    labelColor: string
+    zoomRangeColor: string
+    zoomRangeOpacity: number
+  }
+  marker: {
+    /** Default color of markers without an explicit `color` */
+    color: string
+    lineWidth: number
+    nowColor: string
+  }
+  trimmer: {
+    handleColor: string
+    handleWidth: number
+    labelColor: string
+    areaColor: string
+    areaOpacity: number
+    /** Shading of the time ranges outside of the trim range */
+    outsideColor: string
+    outsideOpacity: number
+  }
+  tooltip: {
+    backgroundColor: string
+    textColor: string
+    fontSize: number
+  }
+}
+
+const cursorColor = '#ffab40'
+
+export const defaultTimelineTheme: TimelineTheme = {
+  base: {
+    backgroundColor: '#fff',
+    fontFamily: '"Roboto", "Helvetica", "Arial", sans-serif',
+    textColor: 'rgba(0, 0, 0, 0.87)',
+  },
+  event: {
+    color: '#3f51b5',
+    opacity: 0.5,
+    strokeWidth: 2,
+    selectedColor: 'rgba(255, 255, 141, 0.5)',
+    selectedStrokeColor: '#ffff8d',
+    pinnedStrokeColor: 'black',
+  },
+  lane: {
+    labelColor: '#3f51b5',
+    labelFontWeight: 600,
+    labelOpacity: 0.4,
+    axisColor: '#9e9e9e',
+    axisStrokeWidth: 2,
+  },
+  grid: {
+    lineColor: '#9e9e9e',
+    labelColor: 'rgba(0, 0, 0, 0.54)',
+    labelOpacity: 0.5,
+    weekStripeColor: '#eeeeee',
+    weekStripeOpacity: 1,
+    rangeColor: '#3f51b5',
+    rangeOpacity: 0.08,
+  },
+  mouseCursor: {
+    lineColor: cursorColor,
+    lineWidth: 2,
+    labelColor: cursorColor,
+    zoomRangeColor: cursorColor,
+    zoomRangeOpacity: 0.1,
+  },
+  marker: {
+    color: '#9c27b0',
+    lineWidth: 1,
+    nowColor: '#f44336',
+  },
+  trimmer: {
+    handleColor: cursorColor,
+    handleWidth: 10,
+    labelColor: cursorColor,
+    areaColor: cursorColor,
+    areaOpacity: 0.1,
+    outsideColor: '#aaaaaa',
+    outsideOpacity: 0.1,
+  },
+  tooltip: {
+    backgroundColor: 'rgba(0, 0, 0, 0.54)',
+    textColor: 'white',
+    fontSize: 14,
+  },
+}
+
+export type PartialTimelineTheme = { [Section in keyof TimelineTheme]?: Partial<TimelineTheme[Section]> }
+
+/** Theme based on the default theme, overriding only some of its properties */
+export const createTimelineTheme = (
+  overrides: PartialTimelineTheme,
+  baseTheme: TimelineTheme = defaultTimelineTheme
+): TimelineTheme => ({
+  base: { ...baseTheme.base, ...overrides.base },
+  event: { ...baseTheme.event, ...overrides.event },
+  lane: { ...baseTheme.lane, ...overrides.lane },
+  grid: { ...baseTheme.grid, ...overrides.grid },
+  mouseCursor: { ...baseTheme.mouseCursor, ...overrides.mouseCursor },
+  marker: { ...baseTheme.marker, ...overrides.marker },
+  trimmer: { ...baseTheme.trimmer, ...overrides.trimmer },
+  tooltip: { ...baseTheme.tooltip, ...overrides.tooltip },
+})
+
+/**
+ * The parts of a Material-UI theme the timeline theme can be derived from (declared structurally, such that
+ * Material-UI remains an optional dependency).
+ */
+export interface MuiThemeLike {
+  palette: {
+    type: 'light' | 'dark'
+    background: { paper: string }
+    text: { primary: string; secondary: string }
+    grey: { 200: string; 500: string; A200: string }
+  }
+  typography: { fontFamily?: string; caption: { fontFamily?: string } }
+}
+
+/** Adapter for applications using Material-UI, e.g. `createTimelineThemeFromMui(useTheme())` */
+export const createTimelineThemeFromMui = (muiTheme: MuiThemeLike): TimelineTheme => {
+  const { palette, typography } = muiTheme
+  const isDark = palette.type === 'dark'
+  return createTimelineTheme({
+    base: {
+      backgroundColor: palette.background.paper,
+      fontFamily: typography.caption.fontFamily || typography.fontFamily || defaultTimelineTheme.base.fontFamily,
+      textColor: palette.text.primary,
+    },
+    event: { pinnedStrokeColor: isDark ? 'white' : 'black' },
+    lane: { axisColor: palette.grey[500] },
+    grid: {
+      lineColor: palette.grey[500],
+      labelColor: palette.text.secondary,
+      weekStripeColor: palette.grey[200],
+      weekStripeOpacity: isDark ? 0.1 : 1,
+    },
+    trimmer: { outsideColor: palette.grey.A200 },
+    tooltip: { backgroundColor: palette.text.secondary },
+  })
+}
+
+const TimelineThemeContext = React.createContext<TimelineTheme>(defaultTimelineTheme)
+
+/** Provides a theme to all timelines below (unless they have an explicit `theme` prop) */
+export const TimelineThemeProvider = TimelineThemeContext.Provider
+
+export const useTimelineTheme = () => useContext(TimelineThemeContext)
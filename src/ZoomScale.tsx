@@ -1,13 +1,35 @@
 import { Domain } from './model'
 
-export const dayDuration = 86400000
+export const secondDuration = 1000
+export const minuteDuration = 60 * secondDuration
+export const hourDuration = 60 * minuteDuration
+export const dayDuration = 24 * hourDuration
 export const weekDuration = 7 * dayDuration
 export const monthDuration = 30 * dayDuration
 export const yearDuration = 365 * dayDuration
 
-export type ZoomScale = 'maximum' | '10 years' | '1 year' | '1 month' | '1 week' | '1 day' | 'minimum'
+export type ZoomScale =
+  | 'maximum'
+  | '10 years'
+  | '1 year'
+  | '1 month'
+  | '1 week'
+  | '1 day'
+  | '1 hour'
+  | '1 minute'
+  | '1 second'
+  | 'minimum'
 
-const orderedScales: ReadonlyArray<ZoomScale> = ['10 years', '1 year', '1 month', '1 week', '1 day']
+const orderedScales: ReadonlyArray<ZoomScale> = [
+  '10 years',
+  '1 year',
+  '1 month',
+  '1 week',
+  '1 day',
+  '1 hour',
+  '1 minute',
+  '1 second',
+]
 
 export const zoomScaleWidth = (scale: ZoomScale): number => {
   switch (scale) {
@@ -23,6 +45,12 @@ export const zoomScaleWidth = (scale: ZoomScale): number => {
       return weekDuration
     case '1 day':
       return dayDuration
+    case '1 hour':
+      return hourDuration
+    case '1 minute':
+      return minuteDuration
+    case '1 second':
+      return secondDuration
     case 'minimum':
       return 0
     default:
@@ -30,12 +58,51 @@ export const zoomScaleWidth = (scale: ZoomScale): number => {
   }
 }
 
-export const nextSmallerZoomScale = (currentDomain: Domain): ZoomScale => {
+/** Smallest domain width the timeline can be zoomed into */
+export const minZoomScaleWidth = zoomScaleWidth(orderedScales[orderedScales.length - 1])
+
+/** Biggest built-in zoom scale not exceeding a given width, e.g. to pick the grid matching a custom zoom level */
+export const zoomScaleAtMost = (width: number): ZoomScale =>
+  orderedScales.find((s) => zoomScaleWidth(s) <= width) || 'minimum'
+
+export const nextSmallerZoomScale = (currentDomain: Domain): ZoomScale =>
+  zoomScaleAtMost((currentDomain[1] - currentDomain[0]) / 2)
+
+export const nextBiggerZoomScale = (currentDomain: Domain): ZoomScale => {
+  const range = (currentDomain[1] - currentDomain[0]) * 2
+  return [...orderedScales].reverse().find((s) => zoomScaleWidth(s) > range) || 'maximum'
+}
+
+/** Step of a zoom ladder, i.e. a domain width the timeline zooms to when zooming in or out */
+export interface ZoomLevel {
+  id: string
+  /** Shown next to the mouse cursor, as the width the timeline will zoom into */
+  label: string
+  durationMillis: number
+}
+
+export type ZoomLadder = ReadonlyArray<ZoomLevel>
+
+/** The built-in zoom scales as a zoom ladder, labelled by a given function (e.g. for translations) */
+export const defaultZoomLadder = (label: (scale: ZoomScale) => string = (scale) => scale): ZoomLadder =>
+  orderedScales.map((scale) => ({ id: scale, label: label(scale), durationMillis: zoomScaleWidth(scale) }))
+
+const fromBiggestToSmallest = (ladder: ZoomLadder) => [...ladder].sort((a, b) => b.durationMillis - a.durationMillis)
+
+/** Same as `nextSmallerZoomScale`, but for a (custom) zoom ladder – `undefined` if zooming in is not possible */
+export const nextSmallerZoomLevel = (currentDomain: Domain, ladder: ZoomLadder): ZoomLevel | undefined => {
   const range = (currentDomain[1] - currentDomain[0]) / 2
-  return orderedScales.find(s => zoomScaleWidth(s) <= range) || 'minimum'
+  return fromBiggestToSmallest(ladder).find((level) => level.durationMillis <= range)
 }
 
-export const nextBiggerZoomScale = (currentDomain: Domain): ZoomScale => {
+/** Same as `nextBiggerZoomScale`, but for a (custom) zoom ladder – `undefined` if there is no bigger level */
+export const nextBiggerZoomLevel = (currentDomain: Domain, ladder: ZoomLadder): ZoomLevel | undefined => {
   const range = (currentDomain[1] - currentDomain[0]) * 2
-  return [...orderedScales].reverse().find(s => zoomScaleWidth(s) > range) || 'maximum'
+  return fromBiggestToSmallest(ladder)
+    .reverse()
+    .find((level) => level.durationMillis > range)
 }
+
+/** Smallest domain width the timeline can be zoomed into with a given zoom ladder (built-in minimum if empty) */
+export const minZoomLevelWidth = (ladder: ZoomLadder): number =>
+  ladder.length === 0 ? minZoomScaleWidth : ladder.reduce((min, level) => Math.min(min, level.durationMillis), Infinity)
@@ -1,3 +1,12 @@
 export * from './model'
 export * from './Timeline'
 export * from './Marks'
+export * from './Localization'
+export * from './TimelineTheme'
+export * from './Export'
+export * from './StaticTimeline'
+export * from './TimelineOverview'
+export * from './TimelineSync'
+export * from './ZoomScale'
+export * from './Animation'
+export * from './BackgroundRanges'
@@ -9,14 +9,46 @@ export interface TimelineEvent<EID, LID> {
   tooltip?: string
   isSelected?: boolean
   isPinned?: boolean
+  /** Editable events can be moved (and resized, if they are periods) by dragging */
+  isEditable?: boolean
 }
 
+/** New position of an event moved or resized by dragging */
+export interface EventChange<LID> {
+  startTimeMillis: number
+  endTimeMillis?: number
+  laneId: LID
+}
+
+/** Event sketched in authoring mode (the host application is responsible for actually adding it) */
+export type EventCreation<LID> = EventChange<LID>
+
 export interface TimelineLane<LID> {
   laneId: LID
   label: string
   color?: string
+  /** Lanes with a parent are nested inside it (and hidden while the parent is collapsed) */
+  parentLaneId?: LID
 }
 
+/** Vertical line annotating a point in time, e.g. a deployment or an admission date */
+export interface TimelineMarker {
+  timeMillis: number
+  label?: string
+  color?: string
+}
+
+/** Shaded time interval behind the marks, e.g. a maintenance window or a holiday */
+export interface TimelineBackgroundRange {
+  start: number
+  end: number
+  color?: string
+  label?: string
+}
+
+/** Background ranges within a given (visible) domain, e.g. recurring ones like weekends or shifts */
+export type BackgroundRangeGenerator = (domain: Domain) => ReadonlyArray<TimelineBackgroundRange>
+
 export type Domain = [number, number]
 
 export type EventComponentRole = 'background' | 'foreground'
@@ -28,5 +60,7 @@ export type EventComponentFactory<EID, LID> = (
   y: number
 ) => React.ReactNode
 
-export type Cursor = 'default' | 'zoom-out' | 'zoom-in' | 'ew-resize' | 'grab'
+export type Cursor = 'default' | 'zoom-out' | 'zoom-in' | 'ew-resize' | 'grab' | 'crosshair' | 'move'
 export type LaneDisplayMode = 'expanded' | 'collapsed'
+export type RenderMode = 'svg' | 'canvas'
+export type EventAggregation = 'none' | 'count' | 'histogram'
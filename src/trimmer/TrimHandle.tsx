@@ -1,57 +1,41 @@
-import { makeStyles, Theme } from '@material-ui/core'
-import { orange } from '@material-ui/core/colors'
 import React from 'react'
 import CursorLabel from '../CursorLabel'
-
-const useStyles = makeStyles((theme: Theme) => ({
-  cursor: {
-    stroke: orange.A200,
-    strokeWidth: 10,
-  },
-  label: {
-    fill: orange.A200,
-    textAnchor: 'middle',
-    dominantBaseline: 'middle',
-    fontFamily: theme.typography.caption.fontFamily,
-    cursor: 'default',
-  },
-  trimmerArea: {
-    fill: orange.A200,
-    opacity: 0.1,
-  },
-}))
+import { useTimelineTheme } from '../TimelineTheme'
 
 interface Props {
   x: number
   label: string
   dateString: string
   height: number
-  onMouseEnter: () => void
-  onMouseLeave: () => void
+  onPointerEnter: () => void
+  onPointerLeave: () => void
 }
 
-function TrimHandle({ x, label, dateString, height, onMouseEnter, onMouseLeave }: Props) {
-  const classes = useStyles()
+function TrimHandle({ x, label, dateString, height, onPointerEnter, onPointerLeave }: Props) {
+  const theme = useTimelineTheme()
+  const { handleColor, handleWidth, labelColor } = theme.trimmer
   return (
     <>
       <line
-        className={classes.cursor}
+        stroke={handleColor}
+        strokeWidth={handleWidth}
         x1={x}
         y1={0}
         x2={x}
         y2="5%"
-        onMouseEnter={onMouseEnter}
-        onMouseLeave={onMouseLeave}
+        onPointerEnter={onPointerEnter}
+        onPointerLeave={onPointerLeave}
       />
-      <CursorLabel x={x} y={'11%'} cursor="default" overline={label} label={dateString} />
+      <CursorLabel x={x} y={'11%'} cursor="default" overline={label} label={dateString} color={labelColor} />
       <line
-        className={classes.cursor}
+        stroke={handleColor}
+        strokeWidth={handleWidth}
         x1={x}
         y1="23%"
         x2={x}
         y2={height}
-        onMouseEnter={onMouseEnter}
-        onMouseLeave={onMouseLeave}
+        onPointerEnter={onPointerEnter}
+        onPointerLeave={onPointerLeave}
       />
     </>
   )
@@ -1,16 +1,9 @@
 import React from 'react'
-import { makeStyles } from '@material-ui/core'
-import { orange } from '@material-ui/core/colors'
 import { ScaleLinear } from 'd3-scale'
 import { TrimHover, TrimNone } from '../InteractionHandling'
 import TrimHandle from './TrimHandle'
-
-const useStyles = makeStyles(() => ({
-  trimmerArea: {
-    fill: orange.A200,
-    opacity: 0.1,
-  },
-}))
+import { TimelineMessages } from '../Localization'
+import { useTimelineTheme } from '../TimelineTheme'
 
 interface Props {
   startX: number
@@ -19,10 +12,11 @@ interface Props {
   timeScale: ScaleLinear<number, number>
   setTrimMode: (trimHoverMode: TrimHover | TrimNone) => void
   dateFormat: (ms: number) => string
+  messages: TimelineMessages
 }
 
-export function Trimmer({ startX, endX, timeScale, height, setTrimMode, dateFormat }: Props) {
-  const classes = useStyles()
+export function Trimmer({ startX, endX, timeScale, height, setTrimMode, dateFormat, messages }: Props) {
+  const theme = useTimelineTheme()
 
   const [y1, y2] = [0, height]
   const [scaledStartX, scaledEndX] = [timeScale(startX)!, timeScale(endX)!]
@@ -30,7 +24,8 @@ export function Trimmer({ startX, endX, timeScale, height, setTrimMode, dateForm
   return (
     <g>
       <rect
-        className={classes.trimmerArea}
+        fill={theme.trimmer.areaColor}
+        opacity={theme.trimmer.areaOpacity}
         x={Math.min(scaledStartX, scaledEndX)}
         y={y1}
         width={Math.abs(scaledEndX - scaledStartX)}
@@ -39,18 +34,18 @@ export function Trimmer({ startX, endX, timeScale, height, setTrimMode, dateForm
       <TrimHandle
         x={scaledStartX}
         dateString={dateFormat(startX)}
-        label="Date from"
+        label={messages.dateFrom}
         height={height}
-        onMouseEnter={() => setTrimMode({ variant: 'trim hover start', otherX: endX })}
-        onMouseLeave={() => setTrimMode({ variant: 'none' })}
+        onPointerEnter={() => setTrimMode({ variant: 'trim hover start', otherX: endX })}
+        onPointerLeave={() => setTrimMode({ variant: 'none' })}
       />
       <TrimHandle
         x={scaledEndX}
         dateString={dateFormat(endX)}
-        label="Date to"
+        label={messages.dateTo}
         height={height}
-        onMouseEnter={() => setTrimMode({ variant: 'trim hover end', otherX: startX })}
-        onMouseLeave={() => setTrimMode({ variant: 'none' })}
+        onPointerEnter={() => setTrimMode({ variant: 'trim hover end', otherX: startX })}
+        onPointerLeave={() => setTrimMode({ variant: 'none' })}
       />
     </g>
   )
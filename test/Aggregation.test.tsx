@@ -0,0 +1,31 @@
+import { scaleLinear } from 'd3-scale'
+import { binEvents, isAggregationNeeded } from '../src/Aggregation'
+
+describe('Aggregation', () => {
+    // 20 pixels (i.e. one bucket) correspond to 10ms
+    const timeScale = scaleLinear().domain([0, 100]).range([0, 200])
+    const events = [
+        { eventId: 'a', startTimeMillis: 1, laneId: 'lane' },
+        { eventId: 'b', startTimeMillis: 2, endTimeMillis: 25, laneId: 'lane' },
+        { eventId: 'c', startTimeMillis: 42, laneId: 'lane' },
+    ]
+
+    it('binEvents', () => {
+        const buckets = binEvents(events, timeScale)
+        expect(buckets.map((b) => b.binDomain)).toEqual([
+            [0, 10],
+            [40, 50],
+        ])
+        expect(buckets.map((b) => b.eventDomain)).toEqual([
+            [1, 25],
+            [42, 42],
+        ])
+    })
+
+    it('isAggregationNeeded', () => {
+        const buckets = binEvents(events, timeScale)
+        expect(isAggregationNeeded(buckets, 'count', 1)).toBe(true)
+        expect(isAggregationNeeded(buckets, 'count', 2)).toBe(false)
+        expect(isAggregationNeeded(buckets, 'none', 1)).toBe(false)
+    })
+})
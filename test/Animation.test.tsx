@@ -0,0 +1,121 @@
+import { calcMaxDomain, cubicInOutEasing, cubicOutEasing, Domain, interpolateDomain, linearEasing, Timeline } from '../src'
+import * as React from 'react'
+import * as ReactDOM from 'react-dom'
+import { act } from 'react-dom/test-utils'
+import { mockAnimationFrames } from './interaction'
+// @ts-ignore – IntelliJ doesn't believe that parcel can import JSON (https://parceljs.org/json.html)
+import data from './data.json'
+
+describe('Animation', () => {
+    const events = data.events
+    const lanes = data.lanes
+    const dateFormat = () => 'whatevz'
+    const domain: Domain = [1399845600000, 1400845600000]
+
+    it('easings', () => {
+        ;[linearEasing, cubicOutEasing, cubicInOutEasing].forEach((easing) => {
+            expect(easing(0)).toEqual(0)
+            expect(easing(1)).toEqual(1)
+        })
+        expect(cubicInOutEasing(0.5)).toEqual(0.5)
+        expect(cubicOutEasing(0.5)).toBeGreaterThan(0.5)
+    })
+
+    it('interpolateDomain', () => {
+        expect(interpolateDomain([0, 100], [50, 250], 0)).toEqual([0, 100])
+        expect(interpolateDomain([0, 100], [50, 250], 0.5)).toEqual([25, 175])
+        expect(interpolateDomain([0, 100], [50, 250], 1)).toEqual([50, 250])
+    })
+
+    const renderAndResetZoom = (animationDuration?: number) => {
+        const div = document.createElement('div')
+        const onZoomRangeChange = jest.fn()
+        act(() => {
+            ReactDOM.render(
+                <Timeline
+                    width={99}
+                    height={42}
+                    events={events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    initialDomain={domain}
+                    animationDuration={animationDuration}
+                    onZoomRangeChange={onZoomRangeChange}
+                />,
+                div
+            )
+        })
+        act(() => {
+            div.querySelector('svg')!.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))
+        })
+        ReactDOM.unmountComponentAtNode(div)
+        return onZoomRangeChange
+    }
+
+    it('zero duration changes the domain immediately', () => {
+        expect(renderAndResetZoom(0)).toHaveBeenLastCalledWith(...calcMaxDomain(events))
+    })
+
+    it('reduced motion changes the domain immediately', () => {
+        const matchMedia = window.matchMedia
+        window.matchMedia = jest.fn().mockImplementation((query: string) => ({
+            matches: query === '(prefers-reduced-motion: reduce)',
+            addListener: jest.fn(),
+            removeListener: jest.fn(),
+        }))
+        try {
+            expect(renderAndResetZoom()).toHaveBeenLastCalledWith(...calcMaxDomain(events))
+        } finally {
+            window.matchMedia = matchMedia
+        }
+    })
+
+    it('panning interrupts an animation', () => {
+        const animationFrames = mockAnimationFrames()
+        const div = document.createElement('div')
+        const onZoomRangeChange = jest.fn()
+        const lastDomain = () => onZoomRangeChange.mock.calls[onZoomRangeChange.mock.calls.length - 1]
+        try {
+            act(() => {
+                ReactDOM.render(
+                    <Timeline
+                        width={1000}
+                        height={42}
+                        events={events}
+                        lanes={lanes}
+                        dateFormat={dateFormat}
+                        initialDomain={domain}
+                        onZoomRangeChange={onZoomRangeChange}
+                    />,
+                    div
+                )
+            })
+            const svg = div.querySelector('svg')!
+            act(() => {
+                svg.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))
+            })
+            // each frame re-renders, which requests the next frame (i.e. one is pending when panning)
+            animationFrames.runFrames(200)
+            animationFrames.runFrames(300)
+            expect(animationFrames.pendingFrames()).toEqual(1)
+            const [start, end] = lastDomain()
+            expect([start, end]).not.toEqual(domain)
+            expect([start, end]).not.toEqual(calcMaxDomain(events))
+
+            // the time scale has a padding of 50 pixels on both sides
+            act(() => {
+                svg.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowLeft' }))
+            })
+            const panDelta = ((end - start) * 50) / 900
+            expect(lastDomain()).toEqual([start - panDelta, end - panDelta])
+
+            // neither a pending frame nor the end of the animation overwrite the pan
+            animationFrames.runFrames(2000)
+            expect(animationFrames.pendingFrames()).toEqual(0)
+            expect(lastDomain()).toEqual([start - panDelta, end - panDelta])
+        } finally {
+            ReactDOM.unmountComponentAtNode(div)
+            animationFrames.restore()
+        }
+    })
+})
@@ -0,0 +1,80 @@
+import { Domain, EventCreation, Timeline } from '../src'
+import { calcLaneLayout } from '../src/LaneLayout'
+import * as React from 'react'
+import * as ReactDOM from 'react-dom'
+import { act } from 'react-dom/test-utils'
+import { click, drag, interactionArea, mockScreenCTM, pointerEnter } from './interaction'
+// @ts-ignore – IntelliJ doesn't believe that parcel can import JSON (https://parceljs.org/json.html)
+import data from './data.json'
+
+describe('Authoring', () => {
+    const lanes = data.lanes
+    const dateFormat = () => 'whatevz'
+    // one millisecond per pixel (the time scale has a padding of 50 pixels), far away from all events
+    const domain: Domain = [0, 900]
+    const [width, height] = [1000, 420]
+    const layout = calcLaneLayout(lanes, height)
+
+    let div: HTMLDivElement
+    let restoreScreenCTM: () => void
+
+    beforeEach(() => {
+        restoreScreenCTM = mockScreenCTM()
+        div = document.createElement('div')
+        document.body.appendChild(div)
+    })
+
+    afterEach(() => {
+        ReactDOM.unmountComponentAtNode(div)
+        div.remove()
+        restoreScreenCTM()
+    })
+
+    const renderAuthoringTimeline = () => {
+        const onEventCreate = jest.fn<void, [EventCreation<string>]>()
+        act(() => {
+            ReactDOM.render(
+                <Timeline
+                    width={width}
+                    height={height}
+                    events={data.events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    domain={domain}
+                    onDomainChange={jest.fn()}
+                    isAuthoring={true}
+                    onEventCreate={onEventCreate}
+                />,
+                div
+            )
+        })
+        return onEventCreate
+    }
+
+    it('click creates a point event', () => {
+        const onEventCreate = renderAuthoringTimeline()
+        const y = layout.laneY('lane-01')!
+        pointerEnter(interactionArea(div), { x: 150, y })
+        click(interactionArea(div), { x: 150, y })
+        expect(onEventCreate).toHaveBeenCalledTimes(1)
+        expect(onEventCreate).toHaveBeenCalledWith({ laneId: 'lane-01', startTimeMillis: 100 })
+    })
+
+    it('drag sketches a period', () => {
+        const onEventCreate = renderAuthoringTimeline()
+        const y = layout.laneY('lane-02')!
+        pointerEnter(interactionArea(div), { x: 450, y })
+        // the period spans the lane at which sketching started, and is ordered by time
+        drag(interactionArea(div), { x: 450, y }, { x: 250, y: layout.laneY('lane-00')! })
+        expect(onEventCreate).toHaveBeenCalledWith({ laneId: 'lane-02', startTimeMillis: 200, endTimeMillis: 400 })
+    })
+
+    it('no events outside of the lanes', () => {
+        const onEventCreate = renderAuthoringTimeline()
+        ;[2, height - 2].forEach((y) => {
+            pointerEnter(interactionArea(div), { x: 150, y })
+            click(interactionArea(div), { x: 150, y })
+        })
+        expect(onEventCreate).not.toHaveBeenCalled()
+    })
+})
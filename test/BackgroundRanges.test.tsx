@@ -0,0 +1,57 @@
+import { dayDuration, hourDuration, recurringBackgroundRanges } from '../src'
+
+describe('BackgroundRanges', () => {
+    const monday = Date.UTC(2014, 4, 12)
+
+    it('weekly ranges', () => {
+        const weekends = recurringBackgroundRanges({
+            period: 'week',
+            offsetMillis: 6 * dayDuration,
+            durationMillis: 2 * dayDuration,
+            label: 'Weekend',
+            timeZone: 'UTC',
+        })
+        expect(weekends([monday, monday + 14 * dayDuration])).toEqual([
+            { start: Date.UTC(2014, 4, 17), end: Date.UTC(2014, 4, 19), color: undefined, label: 'Weekend' },
+            { start: Date.UTC(2014, 4, 24), end: Date.UTC(2014, 4, 26), color: undefined, label: 'Weekend' },
+        ])
+    })
+
+    it('daily ranges reaching into the domain', () => {
+        const nightShifts = recurringBackgroundRanges({
+            period: 'day',
+            offsetMillis: 22 * hourDuration,
+            durationMillis: 8 * hourDuration,
+            timeZone: 'UTC',
+        })
+        expect(nightShifts([monday, monday + 12 * hourDuration]).map((r) => [r.start, r.end])).toEqual([
+            [Date.UTC(2014, 4, 11, 22), Date.UTC(2014, 4, 12, 6)],
+        ])
+    })
+
+    it('daily ranges across a DST transition', () => {
+        const nightShifts = recurringBackgroundRanges({
+            period: 'day',
+            offsetMillis: 22 * hourDuration,
+            durationMillis: 8 * hourDuration,
+            timeZone: 'Europe/Zurich',
+        })
+        // clocks are set forward from 2:00 to 3:00 on 28 March 2021, shifts start at 22:00 nevertheless
+        expect(nightShifts([Date.UTC(2021, 2, 27, 12), Date.UTC(2021, 2, 29)]).map((r) => [r.start, r.end])).toEqual([
+            [Date.UTC(2021, 2, 27, 21), Date.UTC(2021, 2, 28, 4)],
+            [Date.UTC(2021, 2, 28, 20), Date.UTC(2021, 2, 29, 4)],
+        ])
+    })
+
+    it('no ranges for too many recurrences', () => {
+        const daily = recurringBackgroundRanges({
+            period: 'day',
+            offsetMillis: 0,
+            durationMillis: hourDuration,
+            timeZone: 'UTC',
+            maxRecurrences: 10,
+        })
+        expect(daily([monday, monday + 5 * dayDuration])).toHaveLength(5)
+        expect(daily([monday, monday + 20 * dayDuration])).toEqual([])
+    })
+})
@@ -0,0 +1,172 @@
+import { Timeline, TimelineEvent } from '../src'
+import { CanvasMarks } from '../src/CanvasMarks'
+import * as React from 'react'
+import * as ReactDOM from 'react-dom'
+import { act } from 'react-dom/test-utils'
+import { scaleLinear } from 'd3-scale'
+import * as EventIndex from '../src/EventIndex'
+import { interactionArea, keyDown, mockScreenCTM, pointer, pointerEnter } from './interaction'
+
+describe('CanvasMarks', () => {
+    const timeScale = scaleLinear().domain([0, 1000]).range([0, 1000])
+    const events: ReadonlyArray<TimelineEvent<string, string>> = [
+        { eventId: 'period', startTimeMillis: 0, endTimeMillis: 1000, laneId: 'lane' },
+        { eventId: 'point', startTimeMillis: 500, laneId: 'lane' },
+        { eventId: 'far', startTimeMillis: 900, laneId: 'lane' },
+    ]
+
+    beforeEach(() => {
+        // jsdom doesn't implement canvas drawing
+        jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null)
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    const hoveredEventAt = (x: number) => {
+        const onEventHover = jest.fn()
+        const div = document.createElement('div')
+        act(() => {
+            ReactDOM.render(
+                <svg>
+                    <CanvasMarks
+                        width={1000}
+                        height={100}
+                        events={events}
+                        timeScale={timeScale}
+                        mousePosition={{ x, y: 50 }}
+                        eventY={() => 50}
+                        onEventHover={onEventHover}
+                    />
+                </svg>,
+                div
+            )
+        })
+        ReactDOM.unmountComponentAtNode(div)
+        return onEventHover.mock.calls.map(([eventId]) => eventId)
+    }
+
+    it('hit-tests the topmost event', () => {
+        // the point is drawn on top of the (longer) period
+        expect(hoveredEventAt(505)).toEqual(['point'])
+        expect(hoveredEventAt(300)).toEqual(['period'])
+        expect(hoveredEventAt(NaN)).toEqual([])
+    })
+
+    describe('in expanded timelines', () => {
+        const lanes = [
+            { laneId: 'dense', label: 'Dense' },
+            { laneId: 'sparse', label: 'Sparse' },
+        ]
+        // one aggregate of ten events in the dense lane (the time scale has a padding of 50 pixels)
+        const timelineEvents = [
+            ...Array.from({ length: 10 }, (_, i) => ({ eventId: `dense-${i}`, startTimeMillis: 100 + i, laneId: 'dense' })),
+            { eventId: 'sparse', startTimeMillis: 500, laneId: 'sparse' },
+        ]
+
+        // jsdom doesn't hit-test, i.e. elements drawn later (on top) must be checked explicitly
+        const isDrawnAbove = (element: Element, other: Element) =>
+            (other.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0
+
+        it('aggregates can be clicked', () => {
+            const div = document.createElement('div')
+            document.body.appendChild(div)
+            const onDomainChange = jest.fn()
+            act(() => {
+                ReactDOM.render(
+                    <Timeline
+                        width={1000}
+                        height={200}
+                        events={timelineEvents}
+                        lanes={lanes}
+                        dateFormat={() => 'whatevz'}
+                        domain={[0, 900]}
+                        onDomainChange={onDomainChange}
+                        renderMode={'canvas'}
+                        eventAggregation={'count'}
+                        animationDuration={0}
+                    />,
+                    div
+                )
+            })
+            const canvasArea = div.querySelector('rect[fill="transparent"]')!
+            const badge = div.querySelector('g[cursor="zoom-in"]')!
+            expect(badge.textContent).toEqual('10')
+            expect(isDrawnAbove(badge, canvasArea)).toBe(true)
+
+            act(() => {
+                badge.dispatchEvent(new MouseEvent('click', { bubbles: true }))
+            })
+            expect(onDomainChange).toHaveBeenCalled()
+            ReactDOM.unmountComponentAtNode(div)
+            div.remove()
+        })
+
+        it('group labels can be clicked', () => {
+            const div = document.createElement('div')
+            document.body.appendChild(div)
+            const onLaneToggle = jest.fn()
+            act(() => {
+                ReactDOM.render(
+                    <Timeline
+                        width={1000}
+                        height={200}
+                        events={timelineEvents}
+                        lanes={[{ laneId: 'group', label: 'Group' }, ...lanes.map((l) => ({ ...l, parentLaneId: 'group' }))]}
+                        dateFormat={() => 'whatevz'}
+                        domain={[0, 900]}
+                        renderMode={'canvas'}
+                        onLaneToggle={onLaneToggle}
+                    />,
+                    div
+                )
+            })
+            const canvasArea = div.querySelector('rect[fill="transparent"]')!
+            const groupLabel = Array.from(div.querySelectorAll('text')).find((t) => t.textContent!.endsWith('Group'))!
+            expect(isDrawnAbove(groupLabel, canvasArea)).toBe(true)
+
+            act(() => {
+                groupLabel.dispatchEvent(new MouseEvent('click', { bubbles: true }))
+            })
+            expect(onLaneToggle).toHaveBeenCalledWith('group', false)
+            ReactDOM.unmountComponentAtNode(div)
+            div.remove()
+        })
+
+        it('scrolling and mouse moves keep the indexed events of many lanes', () => {
+            const restoreScreenCTM = mockScreenCTM()
+            const div = document.createElement('div')
+            document.body.appendChild(div)
+            const manyLanes = [...lanes, ...Array.from({ length: 20 }, (_, i) => ({ laneId: `lane-${i}`, label: `${i}` }))]
+            act(() => {
+                ReactDOM.render(
+                    <Timeline
+                        width={1000}
+                        height={200}
+                        events={timelineEvents}
+                        lanes={manyLanes}
+                        dateFormat={() => 'whatevz'}
+                        domain={[0, 900]}
+                        onDomainChange={jest.fn()}
+                        renderMode={'canvas'}
+                        eventAggregation={'count'}
+                        minLaneHeight={50}
+                    />,
+                    div
+                )
+            })
+            const createEventIndex = jest.spyOn(EventIndex, 'createEventIndex')
+            pointerEnter(interactionArea(div), { x: 300, y: 100 })
+            pointer(interactionArea(div), 'pointermove', { x: 310, y: 110 })
+            keyDown(div.querySelector('svg')!, 'ArrowDown')
+            keyDown(div.querySelector('svg')!, 'ArrowDown')
+            pointer(interactionArea(div), 'pointermove', { x: 320, y: 120 })
+            expect(createEventIndex).not.toHaveBeenCalled()
+
+            ReactDOM.unmountComponentAtNode(div)
+            div.remove()
+            restoreScreenCTM()
+        })
+    })
+})
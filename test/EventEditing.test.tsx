@@ -0,0 +1,41 @@
+import { scaleLinear } from 'd3-scale'
+import { applyEdit, findEditTarget } from '../src/EventEditing'
+
+describe('EventEditing', () => {
+    const timeScale = scaleLinear().domain([0, 100]).range([0, 100])
+    const eventY = () => 50
+    const period = { eventId: 'period', startTimeMillis: 20, endTimeMillis: 60, laneId: 'lane-1', isEditable: true }
+    const point = { eventId: 'point', startTimeMillis: 40, laneId: 'lane-1', isEditable: true }
+    const readOnly = { eventId: 'read-only', startTimeMillis: 0, endTimeMillis: 100, laneId: 'lane-1' }
+
+    it('findEditTarget', () => {
+        const events = [readOnly, period, point]
+        const target = (x: number, y: number = 50) => {
+            const editTarget = findEditTarget(events, { x, y }, timeScale, eventY, 20)
+            return editTarget && [editTarget.event.eventId, editTarget.variant]
+        }
+        expect(target(21)).toEqual(['period', 'resize start'])
+        expect(target(59)).toEqual(['period', 'resize end'])
+        expect(target(25)).toEqual(['period', 'move'])
+        expect(target(42)).toEqual(['point', 'move'])
+        expect(target(25, 80)).toBeUndefined()
+        expect(target(80)).toBeUndefined()
+    })
+
+    it('applyEdit', () => {
+        expect(applyEdit({ event: period, variant: 'move' }, 10, 'lane-2')).toMatchObject({
+            startTimeMillis: 30,
+            endTimeMillis: 70,
+            laneId: 'lane-2',
+        })
+        expect(applyEdit({ event: period, variant: 'resize start' }, 50, 'lane-2')).toMatchObject({
+            startTimeMillis: 60,
+            endTimeMillis: 60,
+            laneId: 'lane-1',
+        })
+        expect(applyEdit({ event: period, variant: 'resize end' }, -10, 'lane-1')).toMatchObject({
+            startTimeMillis: 20,
+            endTimeMillis: 50,
+        })
+    })
+})
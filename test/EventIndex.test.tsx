@@ -0,0 +1,19 @@
+import { createEventIndex } from '../src/EventIndex'
+
+describe('EventIndex', () => {
+    const events = [
+        { eventId: 'point', startTimeMillis: 50, laneId: 'lane' },
+        { eventId: 'long period', startTimeMillis: 0, endTimeMillis: 1000, laneId: 'lane' },
+        { eventId: 'short period', startTimeMillis: 10, endTimeMillis: 20, laneId: 'lane' },
+        { eventId: 'late point', startTimeMillis: 2000, laneId: 'lane' },
+    ]
+    const index = createEventIndex(events)
+    const eventIdsInside = (start: number, end: number) => index.eventsInside([start, end]).map((e) => e.eventId)
+
+    it('eventsInside', () => {
+        expect(eventIdsInside(40, 60)).toEqual(['long period', 'point'])
+        expect(eventIdsInside(15, 15)).toEqual(['long period', 'short period'])
+        expect(eventIdsInside(1001, 1999)).toEqual([])
+        expect(eventIdsInside(1000, 2000)).toEqual(['long period', 'late point'])
+    })
+})
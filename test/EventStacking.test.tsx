@@ -0,0 +1,18 @@
+import { calcEventStacking } from '../src/EventStacking'
+
+describe('EventStacking', () => {
+    const events = [
+        { eventId: 'long', startTimeMillis: 0, endTimeMillis: 100, laneId: 'lane-1' },
+        { eventId: 'overlapping', startTimeMillis: 50, endTimeMillis: 150, laneId: 'lane-1' },
+        { eventId: 'inside long', startTimeMillis: 60, laneId: 'lane-1' },
+        { eventId: 'after long', startTimeMillis: 120, endTimeMillis: 130, laneId: 'lane-1' },
+        { eventId: 'other lane', startTimeMillis: 50, endTimeMillis: 150, laneId: 'lane-2' },
+    ]
+
+    it('calcEventStacking', () => {
+        const { subRows, subRowCounts } = calcEventStacking(events)
+        expect(events.map((e) => subRows.get(e.eventId))).toEqual([0, 1, 2, 0, 0])
+        expect(subRowCounts.get('lane-1')).toEqual(3)
+        expect(subRowCounts.get('lane-2')).toEqual(1)
+    })
+})
@@ -0,0 +1,31 @@
+import { createTimelineTheme, exportSvg, TimelineEvent, TimelineLane } from '../src'
+
+describe('Export', () => {
+    const lanes: ReadonlyArray<TimelineLane<string>> = [
+        { laneId: 'a', label: 'Lane A' },
+        { laneId: 'b', label: 'Lane B' },
+    ]
+    const events: ReadonlyArray<TimelineEvent<string, string>> = [
+        { eventId: '1', laneId: 'a', startTimeMillis: 1000 },
+        { eventId: '2', laneId: 'b', startTimeMillis: 2000, endTimeMillis: 3000 },
+        { eventId: '3', laneId: 'b', startTimeMillis: 9000 },
+    ]
+
+    it('exportSvg', () => {
+        const svg = exportSvg({ width: 400, height: 200, events, lanes, domain: [0, 5000] })
+        expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true)
+        expect(svg).toContain('Lane A')
+        expect(svg).toContain('Lane B')
+        // styles are inlined, events outside of the domain are omitted
+        expect(svg).not.toContain('class=')
+        expect(svg.match(/<circle/g)).toHaveLength(2) // background & foreground mark of event 1
+    })
+
+    it('exportSvg with theme and scrollable lanes', () => {
+        const theme = createTimelineTheme({ base: { backgroundColor: 'black' } })
+        const svg = exportSvg({ width: 400, height: 50, events, lanes, domain: [0, 5000], minLaneHeight: 100, theme })
+        expect(svg).toContain('fill="black"')
+        // all lanes are shown (2 lanes of 100px plus padding), instead of scrolling
+        expect(svg).toMatch(/<svg [^>]*height="350"/)
+    })
+})
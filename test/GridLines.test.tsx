@@ -0,0 +1,36 @@
+/**
+ * @jest-environment node
+ */
+import { GridLines } from '../src/GridLines'
+import * as React from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { scaleLinear } from 'd3-scale'
+
+describe('GridLines', () => {
+    // the browser's (i.e. the test process') zone skips from 2:00 to 3:00 on that day
+    const dstStart = Date.UTC(2021, 2, 28)
+
+    const render = (timeZone: string) => {
+        const timeScale = scaleLinear().domain([dstStart, dstStart + 6 * 3600000]).range([0, 1200])
+        return renderToStaticMarkup(
+            <svg>
+                <GridLines height={100} domain={[dstStart, dstStart + 6 * 3600000]} timeScale={timeScale} timeZone={timeZone} />
+            </svg>
+        )
+    }
+
+    const lineXs = (markup: string) => Array.from(markup.matchAll(/<line[^>]* x1="([^"]+)"/g)).map(([, x]) => Number(x))
+    const labels = (markup: string) => Array.from(markup.matchAll(/>(\d\d:\d\d)</g)).map(([, label]) => label)
+
+    it('hours of another zone are unaffected by DST transitions of the browser zone', () => {
+        const markup = render('UTC')
+        expect(labels(markup)).toEqual(['00:00', '01:00', '02:00', '03:00', '04:00', '05:00', '06:00'])
+        expect(lineXs(markup)).toEqual([0, 200, 400, 600, 800, 1000, 1200, 1400])
+    })
+
+    it('hours skipped by a DST transition', () => {
+        const markup = render('Europe/Zurich')
+        expect(labels(markup)).toEqual(['01:00', '03:00', '04:00', '05:00', '06:00', '07:00', '08:00'])
+        expect(lineXs(markup)).toEqual([0, 200, 400, 600, 800, 1000, 1200, 1400])
+    })
+})
@@ -0,0 +1,318 @@
+import { calcMaxDomain, Domain, Timeline, zoomScaleWidth } from '../src'
+import * as React from 'react'
+import * as ReactDOM from 'react-dom'
+import { act } from 'react-dom/test-utils'
+import { calcLaneLayout } from '../src/LaneLayout'
+import {
+    click,
+    drag,
+    interactionArea,
+    keyDown,
+    mockScreenCTM,
+    pointer,
+    pointerEnter,
+    pointerLeave,
+    wheel,
+} from './interaction'
+// @ts-ignore – IntelliJ doesn't believe that parcel can import JSON (https://parceljs.org/json.html)
+import data from './data.json'
+
+describe('InteractionHandling', () => {
+    const events = data.events
+    const lanes = data.lanes
+    const dateFormat = () => 'whatevz'
+    // 1000 milliseconds per pixel (the time scale has a padding of 50 pixels)
+    const domain: Domain = [1000000000000, 1000000900000]
+    const timeAt = (x: number) => domain[0] + (x - 50) * 1000
+
+    let div: HTMLDivElement
+    let restoreScreenCTM: () => void
+
+    beforeEach(() => {
+        restoreScreenCTM = mockScreenCTM()
+        div = document.createElement('div')
+        document.body.appendChild(div)
+    })
+
+    afterEach(() => {
+        ReactDOM.unmountComponentAtNode(div)
+        div.remove()
+        restoreScreenCTM()
+        jest.useRealTimers()
+    })
+
+    const renderTimeline = (props: Partial<React.ComponentProps<typeof Timeline>> = {}) => {
+        const onDomainChange = jest.fn<void, [Domain]>()
+        act(() => {
+            ReactDOM.render(
+                <Timeline
+                    width={1000}
+                    height={300}
+                    events={events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    domain={domain}
+                    onDomainChange={onDomainChange}
+                    animationDuration={0}
+                    {...props}
+                />,
+                div
+            )
+        })
+        return onDomainChange
+    }
+
+    describe('wheel', () => {
+        it('zooms around the mouse position', () => {
+            const onDomainChange = renderTimeline()
+            pointerEnter(interactionArea(div), { x: 350, y: 100 })
+            wheel(interactionArea(div), { deltaY: 100 })
+
+            const [start, end] = onDomainChange.mock.calls[0][0]
+            expect(end - start).toBeCloseTo((domain[1] - domain[0]) * Math.exp(0.2))
+            // the time at the mouse position stays in place
+            expect(start + (300 / 900) * (end - start)).toBeCloseTo(timeAt(350))
+        })
+
+        it('pans horizontally', () => {
+            const onDomainChange = renderTimeline()
+            pointerEnter(interactionArea(div), { x: 350, y: 100 })
+            wheel(interactionArea(div), { deltaX: 90, deltaY: 10 })
+            expect(onDomainChange).toHaveBeenLastCalledWith([domain[0] + 90000, domain[1] + 90000])
+
+            // shift + vertical wheel pans as well
+            wheel(interactionArea(div), { deltaY: -90, shiftKey: true })
+            expect(onDomainChange).toHaveBeenLastCalledWith([domain[0] - 90000, domain[1] - 90000])
+        })
+
+        it('subscribes only once', () => {
+            const addEventListener = jest.spyOn(Element.prototype, 'addEventListener')
+            renderTimeline()
+            pointerEnter(interactionArea(div), { x: 350, y: 100 })
+            pointer(interactionArea(div), 'pointermove', { x: 360, y: 100 })
+            const wheelSubscriptions = addEventListener.mock.calls.filter(([type]) => type === 'wheel')
+            expect(wheelSubscriptions).toHaveLength(1)
+            addEventListener.mockRestore()
+        })
+
+        it('ends the interaction after a pause', () => {
+            jest.useFakeTimers()
+            const onInteractionEnd = jest.fn()
+            renderTimeline({ onInteractionEnd })
+            pointerEnter(interactionArea(div), { x: 350, y: 100 })
+            onInteractionEnd.mockClear()
+            wheel(interactionArea(div), { deltaY: 100 })
+            wheel(interactionArea(div), { deltaY: 100 })
+            expect(onInteractionEnd).not.toHaveBeenCalled()
+            act(() => {
+                jest.runAllTimers()
+            })
+            expect(onInteractionEnd).toHaveBeenCalledTimes(1)
+        })
+    })
+
+    describe('pointer', () => {
+        const touch = (id: number, x: number) => ({ x, y: 100, pointerId: id, pointerType: 'touch' })
+        const lastWidth = (onDomainChange: jest.Mock<void, [Domain]>) => {
+            const [start, end] = onDomainChange.mock.calls[onDomainChange.mock.calls.length - 1][0]
+            return end - start
+        }
+
+        it('drag pans', () => {
+            const onDomainChange = renderTimeline()
+            pointerEnter(interactionArea(div), { x: 500, y: 100 })
+            drag(interactionArea(div), { x: 500, y: 100 }, { x: 400, y: 100 })
+            expect(onDomainChange).toHaveBeenCalledTimes(1)
+            expect(onDomainChange).toHaveBeenLastCalledWith([domain[0] + 100000, domain[1] + 100000])
+        })
+
+        it('tap zooms in', () => {
+            const onDomainChange = renderTimeline()
+            pointerEnter(interactionArea(div), { x: 500, y: 100 })
+            click(interactionArea(div), { x: 500, y: 100, pointerType: 'touch' })
+            // zooms in to the zoom scale of one minute
+            expect(lastWidth(onDomainChange)).toEqual(60000)
+        })
+
+        it('pinch zooms', () => {
+            const onDomainChange = renderTimeline()
+            pointerEnter(interactionArea(div), touch(1, 400))
+            pointer(interactionArea(div), 'pointerdown', touch(1, 400))
+            pointer(interactionArea(div), 'pointerdown', touch(2, 600))
+            // doubling the distance between the fingers halves the domain
+            pointer(interactionArea(div), 'pointermove', touch(2, 800))
+            expect(lastWidth(onDomainChange)).toBeCloseTo((domain[1] - domain[0]) / 2)
+            pointer(interactionArea(div), 'pointerup', touch(2, 800))
+            pointer(interactionArea(div), 'pointerup', touch(1, 400))
+        })
+
+        it('pointers released outside are not active anymore', () => {
+            const onDomainChange = renderTimeline()
+            pointerEnter(interactionArea(div), { x: 500, y: 100 })
+            pointer(interactionArea(div), 'pointerdown', { x: 500, y: 100 })
+            pointerLeave(interactionArea(div), { x: 500, y: 100 })
+
+            // the next touch pans (rather than pinching together with the stale mouse pointer)
+            pointerEnter(interactionArea(div), touch(2, 500))
+            drag(interactionArea(div), touch(2, 500), touch(2, 400))
+            expect(onDomainChange).toHaveBeenLastCalledWith([domain[0] + 100000, domain[1] + 100000])
+        })
+
+        it('long press zooms out', () => {
+            jest.useFakeTimers()
+            const onDomainChange = renderTimeline()
+            pointerEnter(interactionArea(div), touch(1, 500))
+            pointer(interactionArea(div), 'pointerdown', touch(1, 500))
+            act(() => {
+                jest.advanceTimersByTime(500)
+            })
+            expect(lastWidth(onDomainChange)).toBeGreaterThan(domain[1] - domain[0])
+
+            // releasing the long press doesn't zoom in again
+            onDomainChange.mockClear()
+            pointer(interactionArea(div), 'pointerup', touch(1, 500))
+            expect(onDomainChange).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('drags released outside', () => {
+        const laneY = calcLaneLayout(lanes, 300).laneY('lane-00')!
+        const editableEvent = {
+            eventId: 'editable',
+            startTimeMillis: timeAt(400),
+            endTimeMillis: timeAt(600),
+            laneId: 'lane-00',
+            isEditable: true,
+        }
+
+        // moves the pointer outside, releases it there, and returns to click inside
+        const releaseOutside = (from: { x: number; y: number }, options: { ctrlKey?: boolean } = {}) => {
+            pointerEnter(interactionArea(div), from)
+            pointer(interactionArea(div), 'pointerdown', { ...from, ...options })
+            pointer(interactionArea(div), 'pointermove', { x: from.x + 100, y: from.y, ...options })
+            pointerLeave(interactionArea(div), { x: from.x + 100, y: from.y })
+            pointerEnter(interactionArea(div), { x: from.x + 200, y: from.y })
+            pointer(interactionArea(div), 'pointerup', { x: from.x + 200, y: from.y })
+        }
+
+        it('discard edits', () => {
+            const onEventChange = jest.fn()
+            renderTimeline({ events: [...events, editableEvent], onEventChange })
+            releaseOutside({ x: 500, y: laneY })
+            expect(onEventChange).not.toHaveBeenCalled()
+        })
+
+        it('discard edits cancelled by the browser', () => {
+            const onEventChange = jest.fn()
+            renderTimeline({ events: [...events, editableEvent], onEventChange })
+            pointerEnter(interactionArea(div), { x: 500, y: laneY })
+            pointer(interactionArea(div), 'pointerdown', { x: 500, y: laneY })
+            pointer(interactionArea(div), 'pointermove', { x: 600, y: laneY })
+            pointer(interactionArea(div), 'pointercancel', { x: 600, y: laneY })
+            expect(onEventChange).not.toHaveBeenCalled()
+        })
+
+        it('discard sketches', () => {
+            const onEventCreate = jest.fn()
+            renderTimeline({ isAuthoring: true, onEventCreate })
+            releaseOutside({ x: 300, y: laneY })
+            expect(onEventCreate).not.toHaveBeenCalled()
+        })
+
+        it('discard lassos', () => {
+            const onSelectionChange = jest.fn()
+            renderTimeline({ onSelectionChange })
+            releaseOutside({ x: 300, y: laneY }, { ctrlKey: true })
+            expect(onSelectionChange).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('keyboard', () => {
+        const svg = () => div.querySelector('svg')!
+        const width = domain[1] - domain[0]
+
+        it('arrow keys pan', () => {
+            const onDomainChange = renderTimeline()
+            keyDown(svg(), 'ArrowRight')
+            expect(onDomainChange).toHaveBeenLastCalledWith([domain[0] + 50000, domain[1] + 50000])
+            keyDown(svg(), 'ArrowLeft')
+            expect(onDomainChange).toHaveBeenLastCalledWith([domain[0] - 50000, domain[1] - 50000])
+
+            // all lanes fit into the timeline, i.e. there's nothing to scroll
+            expect(keyDown(svg(), 'ArrowDown').defaultPrevented).toBe(false)
+            expect(onDomainChange).toHaveBeenCalledTimes(2)
+        })
+
+        it('plus and minus keys zoom', () => {
+            const onDomainChange = renderTimeline()
+            keyDown(svg(), '+')
+            expect(onDomainChange).toHaveBeenLastCalledWith([domain[0] + 420000, domain[1] - 420000])
+            keyDown(svg(), '-')
+            const [start, end] = onDomainChange.mock.calls[onDomainChange.mock.calls.length - 1][0]
+            expect(end - start).toEqual(zoomScaleWidth('1 hour'))
+        })
+
+        it('home and end keys pan to the edges', () => {
+            const onDomainChange = renderTimeline()
+            const [maxStart, maxEnd] = calcMaxDomain(events)
+            keyDown(svg(), 'Home')
+            expect(onDomainChange).toHaveBeenLastCalledWith([maxStart, maxStart + width])
+            keyDown(svg(), 'End')
+            expect(onDomainChange).toHaveBeenLastCalledWith([maxEnd - width, maxEnd])
+        })
+
+        it('tab key moves the focus between the events inside the domain', () => {
+            const onEventHover = jest.fn()
+            const onEventUnhover = jest.fn()
+            const eventsInsideDomain = [
+                { eventId: 'second', startTimeMillis: domain[0] + 600000, laneId: 'lane-00' },
+                { eventId: 'first', startTimeMillis: domain[0] + 300000, laneId: 'lane-01' },
+            ]
+            renderTimeline({ events: [...events, ...eventsInsideDomain], onEventHover, onEventUnhover })
+
+            expect(keyDown(svg(), 'Tab').defaultPrevented).toBe(true)
+            expect(onEventHover).toHaveBeenLastCalledWith('first')
+            expect(keyDown(svg(), 'Tab').defaultPrevented).toBe(true)
+            expect(onEventUnhover).toHaveBeenLastCalledWith('first')
+            expect(onEventHover).toHaveBeenLastCalledWith('second')
+            expect(keyDown(svg(), 'Tab', { shiftKey: true }).defaultPrevented).toBe(true)
+            expect(onEventHover).toHaveBeenLastCalledWith('first')
+
+            // the browser moves the focus out of the timeline
+            onEventHover.mockClear()
+            expect(keyDown(svg(), 'Tab', { shiftKey: true }).defaultPrevented).toBe(false)
+            expect(onEventUnhover).toHaveBeenLastCalledWith('first')
+            expect(onEventHover).not.toHaveBeenCalled()
+        })
+
+        it('only the timeline receiving the key reacts', () => {
+            const [onDomainChange1, onDomainChange2] = [jest.fn(), jest.fn()]
+            const timeline = (onDomainChange: (domain: Domain) => void) => (
+                <Timeline
+                    width={1000}
+                    height={300}
+                    events={events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    domain={domain}
+                    onDomainChange={onDomainChange}
+                    animationDuration={0}
+                />
+            )
+            act(() => {
+                ReactDOM.render(
+                    <>
+                        {timeline(onDomainChange1)}
+                        {timeline(onDomainChange2)}
+                    </>,
+                    div
+                )
+            })
+            const [, secondSvg] = Array.from(div.querySelectorAll('svg'))
+            keyDown(secondSvg, 'ArrowRight')
+            keyDown(secondSvg, '+')
+            expect(onDomainChange2).toHaveBeenCalledTimes(2)
+            expect(onDomainChange1).not.toHaveBeenCalled()
+        })
+    })
+})
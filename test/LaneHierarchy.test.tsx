@@ -0,0 +1,42 @@
+import { assignDisplayLanes, calcLaneHierarchy } from '../src/LaneHierarchy'
+
+describe('LaneHierarchy', () => {
+    const lanes = [
+        { laneId: 'department', label: 'Department' },
+        { laneId: 'team-1', label: 'Team 1', parentLaneId: 'department' },
+        { laneId: 'person-1', label: 'Person 1', parentLaneId: 'team-1' },
+        { laneId: 'team-2', label: 'Team 2', parentLaneId: 'department' },
+        { laneId: 'other', label: 'Other' },
+    ]
+
+    it('calcLaneHierarchy (all expanded)', () => {
+        const hierarchy = calcLaneHierarchy(lanes, () => true)
+        expect(hierarchy.visibleLanes.map((l) => l.laneId)).toEqual([
+            'department',
+            'team-1',
+            'person-1',
+            'team-2',
+            'other',
+        ])
+        expect(lanes.map((l) => hierarchy.depth(l.laneId))).toEqual([0, 1, 2, 1, 0])
+        expect(lanes.map((l) => hierarchy.isGroup(l.laneId))).toEqual([true, true, false, false, false])
+    })
+
+    it('calcLaneHierarchy (collapsed group)', () => {
+        const hierarchy = calcLaneHierarchy(lanes, (laneId) => laneId !== 'team-1')
+        expect(hierarchy.visibleLanes.map((l) => l.laneId)).toEqual(['department', 'team-1', 'team-2', 'other'])
+        expect(hierarchy.displayLaneId('person-1')).toEqual('team-1')
+        expect(hierarchy.isExpanded('team-1')).toEqual(false)
+    })
+
+    it('assignDisplayLanes', () => {
+        const hierarchy = calcLaneHierarchy(lanes, (laneId) => laneId !== 'department')
+        const events = [
+            { eventId: 'e1', startTimeMillis: 0, laneId: 'person-1' },
+            { eventId: 'e2', startTimeMillis: 0, laneId: 'other' },
+        ]
+        const displayedEvents = assignDisplayLanes(events, hierarchy)
+        expect(displayedEvents.map((e) => e.laneId)).toEqual(['department', 'other'])
+        expect(displayedEvents[1]).toBe(events[1])
+    })
+})
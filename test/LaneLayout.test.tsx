@@ -0,0 +1,30 @@
+import { calcLaneLayout } from '../src/LaneLayout'
+
+describe('LaneLayout', () => {
+    const lanes = [
+        { laneId: 'lane-1', label: 'Lane 1' },
+        { laneId: 'lane-2', label: 'Lane 2' },
+    ]
+
+    it('calcLaneLayout', () => {
+        const layout = calcLaneLayout(lanes, 100, (laneId) => (laneId === 'lane-1' ? 2 : 1))
+        expect(layout.contentHeight).toEqual(100)
+        expect(layout.rowY('lane-1', 1)! - layout.rowY('lane-1', 0)!).toBeCloseTo(layout.rowStep)
+        expect(layout.laneY('lane-2')! - layout.laneY('lane-1')!).toBeCloseTo(2 * layout.rowStep)
+        expect(layout.laneY('unknown')).toBeUndefined()
+        expect(layout.laneIdAt(layout.laneY('lane-1')! - 0.4 * layout.rowStep)).toEqual('lane-1')
+        expect(layout.laneIdAt(layout.rowY('lane-1', 1)!)).toEqual('lane-1')
+        expect(layout.laneIdAt(layout.laneY('lane-2')!)).toEqual('lane-2')
+        expect(layout.laneIdAt(layout.laneY('lane-2')! + 0.4 * layout.rowStep)).toEqual('lane-2')
+        // outer padding and outside of the lanes
+        expect(layout.laneIdAt(0)).toBeUndefined()
+        expect(layout.laneIdAt(layout.laneY('lane-2')! + 0.6 * layout.rowStep)).toBeUndefined()
+        expect(layout.laneIdAt(1000)).toBeUndefined()
+    })
+
+    it('calcLaneLayout (minimum row step)', () => {
+        const layout = calcLaneLayout(lanes, 50, () => 1, 40)
+        expect(layout.rowStep).toEqual(40)
+        expect(layout.contentHeight).toBeGreaterThan(50)
+    })
+})
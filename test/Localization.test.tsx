@@ -0,0 +1,13 @@
+import { defaultTimelineMessages, resolveMessages } from '../src/Localization'
+
+describe('Localization', () => {
+    it('resolveMessages', () => {
+        expect(resolveMessages()).toEqual(defaultTimelineMessages)
+
+        const messages = resolveMessages({ dateFrom: 'Datum von', zoomScales: { '1 day': '1 Tag' } })
+        expect(messages.dateFrom).toEqual('Datum von')
+        expect(messages.dateTo).toEqual(defaultTimelineMessages.dateTo)
+        expect(messages.zoomScales['1 day']).toEqual('1 Tag')
+        expect(messages.zoomScales['1 week']).toEqual('1 week')
+    })
+})
@@ -0,0 +1,77 @@
+import { Domain, Timeline } from '../src'
+import * as React from 'react'
+import * as ReactDOM from 'react-dom'
+import { act } from 'react-dom/test-utils'
+// @ts-ignore – IntelliJ doesn't believe that parcel can import JSON (https://parceljs.org/json.html)
+import data from './data.json'
+
+describe('Markers', () => {
+    const events = data.events
+    const lanes = data.lanes
+    const dateFormat = () => 'whatevz'
+    const domain: Domain = [1399845600000, 1400845600000]
+
+    afterEach(() => {
+        jest.useRealTimers()
+        jest.restoreAllMocks()
+    })
+
+    it('markers and now marker', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(1400000000000)
+        const div = document.createElement('div')
+        act(() => {
+            ReactDOM.render(
+                <Timeline
+                    width={999}
+                    height={420}
+                    events={events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    domain={domain}
+                    markers={[
+                        { timeMillis: 1400500000000, label: 'Deployment' },
+                        { timeMillis: 1500000000000, label: 'Release' },
+                    ]}
+                    showNowMarker={true}
+                    messages={{ now: 'Jetzt' }}
+                />,
+                div
+            )
+        })
+        expect(div.textContent).toContain('Deployment')
+        expect(div.textContent).not.toContain('Release')
+        expect(div.textContent).toContain('Jetzt')
+        ReactDOM.unmountComponentAtNode(div)
+    })
+
+    it('following the present', () => {
+        jest.useFakeTimers()
+        const now = jest.spyOn(Date, 'now').mockReturnValue(1400000000000)
+        const div = document.createElement('div')
+        const onZoomRangeChange = jest.fn()
+        act(() => {
+            ReactDOM.render(
+                <Timeline
+                    width={999}
+                    height={420}
+                    events={events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    initialDomain={domain}
+                    followNow={true}
+                    nowMarkerInterval={1000}
+                    onZoomRangeChange={onZoomRangeChange}
+                />,
+                div
+            )
+        })
+        expect(onZoomRangeChange).toHaveBeenLastCalledWith(...domain)
+
+        now.mockReturnValue(1400000060000)
+        act(() => {
+            jest.advanceTimersByTime(1000)
+        })
+        expect(onZoomRangeChange).toHaveBeenLastCalledWith(domain[0] + 60000, domain[1] + 60000)
+        ReactDOM.unmountComponentAtNode(div)
+    })
+})
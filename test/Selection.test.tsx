@@ -0,0 +1,34 @@
+import { selectInsideLasso, selectionGesture, selectRange, toggleSelection } from '../src/Selection'
+
+describe('Selection', () => {
+    const events = [
+        { eventId: 'a', startTimeMillis: 0, laneId: 'lane-1' },
+        { eventId: 'b', startTimeMillis: 10, endTimeMillis: 30, laneId: 'lane-1' },
+        { eventId: 'c', startTimeMillis: 20, laneId: 'lane-1' },
+        { eventId: 'd', startTimeMillis: 15, laneId: 'lane-2' },
+    ]
+
+    it('selectionGesture', () => {
+        expect(selectionGesture({ ctrlKey: true, metaKey: false, shiftKey: false })).toEqual('toggle')
+        expect(selectionGesture({ ctrlKey: false, metaKey: true, shiftKey: true })).toEqual('toggle')
+        expect(selectionGesture({ ctrlKey: false, metaKey: false, shiftKey: true })).toEqual('range')
+        expect(selectionGesture({ ctrlKey: false, metaKey: false, shiftKey: false })).toEqual('none')
+    })
+
+    it('toggleSelection', () => {
+        expect(toggleSelection(['a'], 'b')).toEqual(['a', 'b'])
+        expect(toggleSelection(['a', 'b'], 'a')).toEqual(['b'])
+    })
+
+    it('selectRange', () => {
+        expect(selectRange(events, 'c', 'a')).toEqual(['a', 'b', 'c'])
+        expect(selectRange(events, 'a', 'd')).toEqual(['d'])
+        expect(selectRange(events, undefined, 'b')).toEqual(['b'])
+    })
+
+    it('selectInsideLasso', () => {
+        const eventY = (e: { laneId: string }) => (e.laneId === 'lane-1' ? 10 : 30)
+        expect(selectInsideLasso(events, [25, 40], [0, 20], eventY)).toEqual(['b'])
+        expect(selectInsideLasso(events, [5, 40], [0, 40], eventY)).toEqual(['b', 'c', 'd'])
+    })
+})
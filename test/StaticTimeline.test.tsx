@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import { Domain, StaticTimeline } from '../src'
+import * as React from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+// @ts-ignore – IntelliJ doesn't believe that parcel can import JSON (https://parceljs.org/json.html)
+import data from './data.json'
+
+describe('StaticTimeline', () => {
+    const events = data.events
+    const lanes = data.lanes
+
+    it('render without browser APIs', () => {
+        expect(typeof window).toEqual('undefined')
+        const domain: Domain = [1399845600000, 1400845600000]
+        const markup = renderToStaticMarkup(
+            <StaticTimeline width={800} height={300} events={events} lanes={lanes} domain={domain} timeZone={'UTC'} />
+        )
+        expect(markup).toContain('Lane One')
+        expect(markup).toContain('May')
+        expect(markup).not.toContain('class=')
+    })
+
+    it('render collapsed lanes', () => {
+        const markup = renderToStaticMarkup(
+            <StaticTimeline
+                width={800}
+                height={300}
+                events={events}
+                lanes={lanes}
+                domain={[1399845600000, 1400845600000]}
+                laneDisplayMode={'collapsed'}
+            />
+        )
+        expect(markup).not.toContain('Lane One')
+        expect(markup).toContain('<circle')
+    })
+
+    it('render markers inside the domain', () => {
+        const markup = renderToStaticMarkup(
+            <StaticTimeline
+                width={800}
+                height={300}
+                events={events}
+                lanes={lanes}
+                domain={[1399845600000, 1400845600000]}
+                markers={[
+                    { timeMillis: 1400000000000, label: 'Release 1.0' },
+                    { timeMillis: 1500000000000, label: 'Release 2.0' },
+                ]}
+            />
+        )
+        expect(markup).toContain('Release 1.0')
+        expect(markup).not.toContain('Release 2.0')
+    })
+
+    it('render background ranges', () => {
+        const markup = renderToStaticMarkup(
+            <StaticTimeline
+                width={800}
+                height={300}
+                events={events}
+                lanes={lanes}
+                domain={[1399845600000, 1400845600000]}
+                backgroundRanges={[{ start: 1400000000000, end: 1400100000000, label: 'Maintenance' }]}
+            />
+        )
+        expect(markup).toContain('Maintenance')
+    })
+})
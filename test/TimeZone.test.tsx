@@ -0,0 +1,50 @@
+import { startOfWallClockDay, startOfWallClockWeek, timeZoneConversion } from '../src/TimeZone'
+
+describe('TimeZone', () => {
+    const noonUtc = Date.UTC(2020, 0, 15, 12, 30)
+    // the browser's (i.e. the test process') zone skips from 2:00 to 3:00
+    const zurichDstStart = Date.UTC(2021, 2, 28, 1)
+
+    it('tests run in a time zone with DST transitions', () => {
+        expect(new Date(Date.UTC(2021, 0, 1)).getTimezoneOffset()).toEqual(-60)
+        expect(new Date(Date.UTC(2021, 6, 1)).getTimezoneOffset()).toEqual(-120)
+    })
+
+    it('toWallClock', () => {
+        expect(timeZoneConversion('UTC').toWallClock(noonUtc)).toEqual(noonUtc)
+        expect(timeZoneConversion('America/New_York').toWallClock(noonUtc)).toEqual(Date.UTC(2020, 0, 15, 7, 30))
+        expect(timeZoneConversion('Asia/Tokyo').toWallClock(Date.UTC(2020, 0, 15, 20))).toEqual(Date.UTC(2020, 0, 16, 5))
+        expect(timeZoneConversion('Europe/Zurich').toWallClock(NaN)).toBeNaN()
+    })
+
+    it('fromWallClock', () => {
+        const zurich = timeZoneConversion('Europe/Zurich')
+        expect(zurich.fromWallClock(zurich.toWallClock(noonUtc))).toEqual(noonUtc)
+        expect(zurich.fromWallClock(Date.UTC(2020, 6, 1))).toEqual(Date.UTC(2020, 5, 30, 22))
+        // skipped wall-clock times resolve to a time after the transition
+        expect(zurich.fromWallClock(Date.UTC(2021, 2, 28, 2, 30))).toEqual(Date.UTC(2021, 2, 28, 1, 30))
+    })
+
+    it('wall-clock times skipped by the browser time zone', () => {
+        const utc = timeZoneConversion('UTC')
+        const skippedInBrowser = Date.UTC(2021, 2, 28, 2, 30)
+        expect(utc.toWallClock(skippedInBrowser)).toEqual(skippedInBrowser)
+        expect(utc.fromWallClock(utc.toWallClock(skippedInBrowser))).toEqual(skippedInBrowser)
+    })
+
+    it('local time zone', () => {
+        const local = timeZoneConversion()
+        expect(local.toWallClock(noonUtc)).toEqual(Date.UTC(2020, 0, 15, 13, 30))
+        expect(local.fromWallClock(local.toWallClock(noonUtc))).toEqual(noonUtc)
+        expect(local.toWallClock(zurichDstStart)).toEqual(Date.UTC(2021, 2, 28, 3))
+        expect(local.fromWallClock(Date.UTC(2021, 2, 28, 3))).toEqual(zurichDstStart)
+    })
+
+    it('wall-clock days and weeks', () => {
+        const wednesday = Date.UTC(2021, 2, 31, 18)
+        expect(startOfWallClockDay(wednesday)).toEqual(Date.UTC(2021, 2, 31))
+        expect(startOfWallClockWeek(wednesday)).toEqual(Date.UTC(2021, 2, 28))
+        expect(startOfWallClockWeek(wednesday, 1)).toEqual(Date.UTC(2021, 2, 29))
+        expect(startOfWallClockWeek(Date.UTC(2021, 2, 28, 5), 1)).toEqual(Date.UTC(2021, 2, 22))
+    })
+})
@@ -1,6 +1,8 @@
-import { calcMaxDomain, Timeline } from '../src'
+import { calcMaxDomain, Domain, padDomain, Timeline, zoomScaleWidth } from '../src'
 import * as React from 'react'
 import * as ReactDOM from 'react-dom'
+import { act } from 'react-dom/test-utils'
+import { interactionArea, mockAnimationFrames, mockScreenCTM, pointerEnter } from './interaction'
 // @ts-ignore – IntelliJ doesn't believe that parcel can import JSON (https://parceljs.org/json.html)
 import data from './data.json'
 
@@ -15,7 +17,252 @@ describe('Timeline', () => {
         ReactDOM.unmountComponentAtNode(div)
     })
 
+    it('controlled domain', () => {
+        const div = document.createElement('div')
+        const dateFormat = () => 'whatevz'
+        const domain: Domain = [599612400000, 799612400000]
+        const onZoomRangeChange = jest.fn()
+        act(() => {
+            ReactDOM.render(
+                <Timeline
+                    width={99}
+                    height={42}
+                    events={events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    domain={domain}
+                    onZoomRangeChange={onZoomRangeChange}
+                />,
+                div
+            )
+        })
+        expect(onZoomRangeChange).toHaveBeenLastCalledWith(...domain)
+        ReactDOM.unmountComponentAtNode(div)
+    })
+
+    it('controlled domain changes only when the parent accepts them', () => {
+        const div = document.createElement('div')
+        const dateFormat = () => 'whatevz'
+        const domain: Domain = [599612400000, 799612400000]
+        const onDomainChange = jest.fn()
+        const onZoomRangeChange = jest.fn()
+        const render = (controlledDomain: Domain) =>
+            act(() => {
+                ReactDOM.render(
+                    <Timeline
+                        width={1000}
+                        height={42}
+                        events={events}
+                        lanes={lanes}
+                        dateFormat={dateFormat}
+                        domain={controlledDomain}
+                        onDomainChange={onDomainChange}
+                        onZoomRangeChange={onZoomRangeChange}
+                        animationDuration={0}
+                    />,
+                    div
+                )
+            })
+        const panRight = () =>
+            act(() => {
+                div.querySelector('svg')!.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }))
+            })
+
+        render(domain)
+        panRight()
+        // the time scale has a padding of 50 pixels on both sides
+        const panDelta = ((domain[1] - domain[0]) * 50) / 900
+        const pannedDomain = [domain[0] + panDelta, domain[1] + panDelta]
+        expect(onDomainChange).toHaveBeenCalledTimes(1)
+        expect(onDomainChange).toHaveBeenLastCalledWith(pannedDomain)
+        // the parent ignores the change
+        expect(onZoomRangeChange).toHaveBeenLastCalledWith(...domain)
+
+        // panning again starts from the controlled domain
+        panRight()
+        expect(onDomainChange).toHaveBeenLastCalledWith(pannedDomain)
+
+        // the parent accepts the change
+        render(onDomainChange.mock.calls[0][0])
+        expect(onZoomRangeChange).toHaveBeenLastCalledWith(...pannedDomain)
+        ReactDOM.unmountComponentAtNode(div)
+    })
+
+    describe('animated controlled domain', () => {
+        const domain: Domain = [599612400000, 799612400000]
+        let div: HTMLDivElement
+        let animationFrames: ReturnType<typeof mockAnimationFrames>
+        const onDomainChange = jest.fn()
+        const onZoomRangeChange = jest.fn()
+
+        beforeEach(() => {
+            div = document.createElement('div')
+            animationFrames = mockAnimationFrames()
+            onDomainChange.mockClear()
+            onZoomRangeChange.mockClear()
+        })
+
+        afterEach(() => {
+            ReactDOM.unmountComponentAtNode(div)
+            animationFrames.restore()
+        })
+
+        // the default animation duration applies
+        const render = (controlledDomain: Domain) =>
+            act(() => {
+                ReactDOM.render(
+                    <Timeline
+                        width={1000}
+                        height={42}
+                        events={events}
+                        lanes={lanes}
+                        dateFormat={() => 'whatevz'}
+                        domain={controlledDomain}
+                        onDomainChange={onDomainChange}
+                        onZoomRangeChange={onZoomRangeChange}
+                    />,
+                    div
+                )
+            })
+        const zoomIn = () =>
+            act(() => {
+                div.querySelector('svg')!.dispatchEvent(new KeyboardEvent('keydown', { key: '+' }))
+            })
+        const lastDomainChange = () => onDomainChange.mock.calls[onDomainChange.mock.calls.length - 1][0]
+
+        it('animations only propose domains to the parent', () => {
+            render(domain)
+            zoomIn()
+            animationFrames.runFrames(200)
+            animationFrames.runFrames(500)
+            expect(onDomainChange).toHaveBeenCalledTimes(2)
+            // the parent ignores all frames
+            expect(onZoomRangeChange).toHaveBeenLastCalledWith(...domain)
+            expect(onZoomRangeChange).toHaveBeenCalledTimes(1)
+
+            animationFrames.runFrames(2000)
+            const [start, end] = lastDomainChange()
+            expect(end - start).toBeLessThan(domain[1] - domain[0])
+            expect(onZoomRangeChange).toHaveBeenLastCalledWith(...domain)
+            expect(animationFrames.pendingFrames()).toEqual(0)
+        })
+
+        it('parents setting another domain interrupt the animation', () => {
+            render(domain)
+            zoomIn()
+            animationFrames.runFrames(200)
+            // the parent accepts the first frame
+            render(lastDomainChange())
+            animationFrames.runFrames(400)
+            expect(onDomainChange).toHaveBeenCalledTimes(2)
+
+            // e.g. from a date picker
+            const pickedDomain: Domain = [650000000000, 700000000000]
+            render(pickedDomain)
+            animationFrames.runFrames(600)
+            animationFrames.runFrames(2000)
+            expect(onDomainChange).toHaveBeenCalledTimes(2)
+            expect(onZoomRangeChange).toHaveBeenLastCalledWith(...pickedDomain)
+            expect(animationFrames.pendingFrames()).toEqual(0)
+        })
+    })
+
+    it('empty zoom ladder falls back to the built-in zoom scales', () => {
+        const div = document.createElement('div')
+        const dateFormat = () => 'whatevz'
+        const onZoomRangeChange = jest.fn()
+        act(() => {
+            ReactDOM.render(
+                <Timeline
+                    width={1000}
+                    height={42}
+                    events={events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    zoomLadder={[]}
+                    animationDuration={0}
+                    onZoomRangeChange={onZoomRangeChange}
+                />,
+                div
+            )
+        })
+        act(() => {
+            div.querySelector('svg')!.dispatchEvent(new KeyboardEvent('keydown', { key: '+' }))
+        })
+        const [start, end] = onZoomRangeChange.mock.calls[onZoomRangeChange.mock.calls.length - 1]
+        expect(end - start).toEqual(zoomScaleWidth('10 years'))
+        ReactDOM.unmountComponentAtNode(div)
+    })
+
+    it('dateFormat receives timestamps and the time zone', () => {
+        const restoreScreenCTM = mockScreenCTM()
+        const div = document.createElement('div')
+        document.body.appendChild(div)
+        const dateFormat = jest.fn((ms: number, timeZone?: string) => `${ms} ${timeZone}`)
+        const domain: Domain = [1000000000000, 1000000900000]
+        act(() => {
+            ReactDOM.render(
+                <Timeline
+                    width={1000}
+                    height={300}
+                    events={events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    timeZone={'Asia/Tokyo'}
+                    domain={domain}
+                />,
+                div
+            )
+        })
+        // the cursor label (the time scale has a padding of 50 pixels)
+        pointerEnter(interactionArea(div), { x: 350, y: 100 })
+        expect(dateFormat).toHaveBeenLastCalledWith(domain[0] + 300000, 'Asia/Tokyo')
+        ReactDOM.unmountComponentAtNode(div)
+        div.remove()
+        restoreScreenCTM()
+    })
+
     it('calcMaxDomain', () => {
         expect(calcMaxDomain(events)).toEqual([599612400000, 1399932000000])
     })
+
+    it('padDomain', () => {
+        expect(padDomain([1000, 2000], 0.1)).toEqual([900, 2100])
+        expect(padDomain([1000, 2000], 0)).toEqual([1000, 2000])
+    })
+
+    const panRight = (maxTime?: number) => {
+        const div = document.createElement('div')
+        const dateFormat = () => 'whatevz'
+        const onZoomRangeChange = jest.fn()
+        act(() => {
+            ReactDOM.render(
+                <Timeline
+                    width={1000}
+                    height={42}
+                    events={events}
+                    lanes={lanes}
+                    dateFormat={dateFormat}
+                    initialDomain={[1399000000000, 1399900000000]}
+                    maxTime={maxTime}
+                    animationDuration={0}
+                    onZoomRangeChange={onZoomRangeChange}
+                />,
+                div
+            )
+        })
+        act(() => {
+            div.querySelector('svg')!.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }))
+        })
+        ReactDOM.unmountComponentAtNode(div)
+        return onZoomRangeChange
+    }
+
+    it('panning clamps to the extent of the events', () => {
+        expect(panRight()).toHaveBeenLastCalledWith(1399032000000, 1399932000000)
+    })
+
+    it('panning beyond the extent of the events up to maxTime', () => {
+        expect(panRight(1500000000000)).toHaveBeenLastCalledWith(1399050000000, 1399950000000)
+    })
 })
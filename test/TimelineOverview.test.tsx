@@ -0,0 +1,83 @@
+import { Domain } from '../src'
+import { brushDomain, recenterDomain, TimelineOverview } from '../src/TimelineOverview'
+import * as React from 'react'
+import * as ReactDOM from 'react-dom'
+import { act } from 'react-dom/test-utils'
+import { drag, mockScreenCTM } from './interaction'
+// @ts-ignore – IntelliJ doesn't believe that parcel can import JSON (https://parceljs.org/json.html)
+import data from './data.json'
+
+describe('TimelineOverview', () => {
+    it('render without crashing', () => {
+        const div = document.createElement('div')
+        const domain: Domain = [1399845600000, 1400845600000]
+        ReactDOM.render(
+            <TimelineOverview width={99} height={42} events={data.events} domain={domain} onDomainChange={jest.fn()} />,
+            div
+        )
+        ReactDOM.unmountComponentAtNode(div)
+    })
+
+    it('brushDomain', () => {
+        expect(brushDomain('move', [10, 20], 5, [0, 100], 1)).toEqual([15, 25])
+        expect(brushDomain('move', [10, 20], -50, [0, 100], 1)).toEqual([0, 10])
+        expect(brushDomain('move', [10, 20], 90, [0, 100], 1)).toEqual([90, 100])
+        expect(brushDomain('resize start', [10, 20], -5, [0, 100], 1)).toEqual([5, 20])
+        expect(brushDomain('resize start', [10, 20], 15, [0, 100], 1)).toEqual([19, 20])
+        expect(brushDomain('resize end', [10, 20], 100, [0, 100], 1)).toEqual([10, 100])
+        expect(brushDomain('resize end', [10, 20], -15, [0, 100], 1)).toEqual([10, 11])
+    })
+
+    it('brushDomain exceeding the bounds', () => {
+        expect(brushDomain('move', [-10, 110], 5, [0, 100], 1)).toEqual([-10, 110])
+        expect(brushDomain('move', [-10, 110], -5, [0, 100], 1)).toEqual([-10, 110])
+        // moving towards the bounds is possible
+        expect(brushDomain('move', [-30, -20], 5, [0, 100], 1)).toEqual([-25, -15])
+        expect(brushDomain('move', [-30, -20], -5, [0, 100], 1)).toEqual([-30, -20])
+        expect(brushDomain('resize start', [-10, 110], -5, [0, 100], 1)).toEqual([-10, 110])
+        expect(brushDomain('resize start', [-10, 110], 5, [0, 100], 1)).toEqual([-5, 110])
+        expect(brushDomain('resize end', [-10, 110], 5, [0, 100], 1)).toEqual([-10, 110])
+        expect(brushDomain('resize end', [-10, 110], -5, [0, 100], 1)).toEqual([-10, 105])
+    })
+
+    it('recenterDomain', () => {
+        expect(recenterDomain([10, 20], 50, [0, 100])).toEqual([45, 55])
+        expect(recenterDomain([10, 20], 98, [0, 100])).toEqual([90, 100])
+    })
+
+    it('brush moves within minTime and maxTime', () => {
+        const restoreScreenCTM = mockScreenCTM()
+        // jsdom doesn't implement pointer capture
+        Object.assign(Element.prototype, { setPointerCapture: jest.fn(), releasePointerCapture: jest.fn() })
+        const div = document.createElement('div')
+        document.body.appendChild(div)
+        const onDomainChange = jest.fn()
+        // 2000000000 milliseconds per pixel (the brush handles take 6 pixels on both sides)
+        act(() => {
+            ReactDOM.render(
+                <TimelineOverview
+                    width={1012}
+                    height={42}
+                    events={data.events}
+                    domain={[1200000000000, 1400000000000]}
+                    onDomainChange={onDomainChange}
+                    minTime={0}
+                    maxTime={2000000000000}
+                />,
+                div
+            )
+        })
+        // beyond the end of the events
+        drag(div.querySelector('svg')!, { x: 656, y: 20 }, { x: 906, y: 20 })
+        expect(onDomainChange).toHaveBeenLastCalledWith([1700000000000, 1900000000000])
+        drag(div.querySelector('svg')!, { x: 656, y: 20 }, { x: 1006, y: 20 })
+        expect(onDomainChange).toHaveBeenLastCalledWith([1800000000000, 2000000000000])
+
+        ReactDOM.unmountComponentAtNode(div)
+        div.remove()
+        restoreScreenCTM()
+        const prototype: Partial<Element> = Element.prototype
+        delete prototype.setPointerCapture
+        delete prototype.releasePointerCapture
+    })
+})
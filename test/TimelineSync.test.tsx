@@ -0,0 +1,54 @@
+import { Domain, Timeline, TimelineSyncProvider } from '../src'
+import * as React from 'react'
+import * as ReactDOM from 'react-dom'
+import { act } from 'react-dom/test-utils'
+// @ts-ignore – IntelliJ doesn't believe that parcel can import JSON (https://parceljs.org/json.html)
+import data from './data.json'
+
+describe('TimelineSync', () => {
+    const events = data.events
+    const lanes = data.lanes
+    const dateFormat = () => 'whatevz'
+
+    it('synchronized domain', () => {
+        const div = document.createElement('div')
+        const domain: Domain = [1399845600000, 1400845600000]
+        const onZoomRangeChange1 = jest.fn()
+        const onZoomRangeChange2 = jest.fn()
+        act(() => {
+            ReactDOM.render(
+                <TimelineSyncProvider initialDomain={domain}>
+                    <Timeline
+                        width={99}
+                        height={42}
+                        events={events}
+                        lanes={lanes}
+                        dateFormat={dateFormat}
+                        onZoomRangeChange={onZoomRangeChange1}
+                    />
+                    <Timeline
+                        width={199}
+                        height={42}
+                        events={events.slice(0, 3)}
+                        lanes={lanes.slice(0, 1)}
+                        dateFormat={dateFormat}
+                        onZoomRangeChange={onZoomRangeChange2}
+                    />
+                </TimelineSyncProvider>,
+                div
+            )
+        })
+        expect(onZoomRangeChange1).toHaveBeenLastCalledWith(...domain)
+        expect(onZoomRangeChange2).toHaveBeenLastCalledWith(...domain)
+
+        // panning the first timeline pans the second one, too
+        act(() => {
+            div.querySelector('svg')!.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }))
+        })
+        const [pannedStart, pannedEnd] = onZoomRangeChange1.mock.calls[onZoomRangeChange1.mock.calls.length - 1]
+        expect(pannedStart).not.toEqual(domain[0])
+        expect(pannedEnd - pannedStart).toBeCloseTo(domain[1] - domain[0])
+        expect(onZoomRangeChange2).toHaveBeenLastCalledWith(pannedStart, pannedEnd)
+        ReactDOM.unmountComponentAtNode(div)
+    })
+})
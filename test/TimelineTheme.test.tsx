@@ -0,0 +1,20 @@
+import { createTimelineTheme, createTimelineThemeFromMui, defaultTimelineTheme } from '../src/TimelineTheme'
+import createMuiTheme from '@material-ui/core/styles/createMuiTheme'
+
+describe('TimelineTheme', () => {
+    it('createTimelineTheme', () => {
+        const theme = createTimelineTheme({ mouseCursor: { lineColor: 'red' } })
+        expect(theme.mouseCursor.lineColor).toEqual('red')
+        expect(theme.mouseCursor.lineWidth).toEqual(defaultTimelineTheme.mouseCursor.lineWidth)
+        expect(theme.event).toEqual(defaultTimelineTheme.event)
+    })
+
+    it('createTimelineThemeFromMui', () => {
+        expect(createTimelineThemeFromMui(createMuiTheme())).toEqual(defaultTimelineTheme)
+
+        const darkTheme = createTimelineThemeFromMui(createMuiTheme({ palette: { type: 'dark' } }))
+        expect(darkTheme.base.backgroundColor).toEqual('#424242')
+        expect(darkTheme.event.pinnedStrokeColor).toEqual('white')
+        expect(darkTheme.grid.weekStripeOpacity).toEqual(0.1)
+    })
+})
@@ -1,5 +1,17 @@
 import { Domain } from '../src'
-import { nextBiggerZoomScale, nextSmallerZoomScale, zoomScaleWidth } from '../src/ZoomScale'
+import {
+    defaultZoomLadder,
+    hourDuration,
+    minZoomLevelWidth,
+    minZoomScaleWidth,
+    nextBiggerZoomLevel,
+    nextBiggerZoomScale,
+    nextSmallerZoomLevel,
+    nextSmallerZoomScale,
+    ZoomLadder,
+    zoomScaleAtMost,
+    zoomScaleWidth,
+} from '../src/ZoomScale'
 
 describe('ZoomScale', () => {
     const threeDays: Domain = [0, 3 * zoomScaleWidth('1 day')]
@@ -10,4 +22,36 @@ describe('ZoomScale', () => {
     it('nextBiggerZoomScale', () => {
         expect(nextBiggerZoomScale(threeDays)).toEqual('1 week')
     })
+    it('sub-day zoom scales', () => {
+        const threeHours: Domain = [0, 3 * zoomScaleWidth('1 hour')]
+        expect(nextSmallerZoomScale(threeHours)).toEqual('1 hour')
+        expect(nextBiggerZoomScale(threeHours)).toEqual('1 day')
+        expect(nextSmallerZoomScale([0, zoomScaleWidth('1 second')])).toEqual('minimum')
+    })
+
+    it('custom zoom ladder', () => {
+        const shiftLadder: ZoomLadder = [
+            { id: 'slot', label: '15 minutes', durationMillis: hourDuration / 4 },
+            { id: 'week', label: 'Week', durationMillis: zoomScaleWidth('1 week') },
+            { id: 'shift', label: 'Shift', durationMillis: 8 * hourDuration },
+        ]
+        expect(nextSmallerZoomLevel(threeDays, shiftLadder)!.id).toEqual('shift')
+        expect(nextBiggerZoomLevel(threeDays, shiftLadder)!.id).toEqual('week')
+        expect(nextSmallerZoomLevel([0, hourDuration / 4], shiftLadder)).toBeUndefined()
+        expect(nextBiggerZoomLevel([0, zoomScaleWidth('1 week')], shiftLadder)).toBeUndefined()
+        expect(minZoomLevelWidth(shiftLadder)).toEqual(hourDuration / 4)
+        expect(zoomScaleAtMost(8 * hourDuration)).toEqual('1 hour')
+    })
+    it('default zoom ladder', () => {
+        const ladder = defaultZoomLadder((scale) => scale.toUpperCase())
+        expect(nextSmallerZoomLevel(threeDays, ladder)).toEqual({
+            id: '1 day',
+            label: '1 DAY',
+            durationMillis: zoomScaleWidth('1 day'),
+        })
+        expect(minZoomLevelWidth(ladder)).toEqual(zoomScaleWidth('1 second'))
+    })
+    it('empty zoom ladder', () => {
+        expect(minZoomLevelWidth([])).toEqual(minZoomScaleWidth)
+    })
 })
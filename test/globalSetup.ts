@@ -0,0 +1,7 @@
+/**
+ * Tests run in a time zone with DST transitions, such that code relying on the browser's time zone doesn't pass by
+ * chance (setting `TZ` inside of a test file is too late, the zone is fixed once the test process is running).
+ */
+export default () => {
+    process.env.TZ = 'Europe/Zurich'
+}
@@ -0,0 +1,109 @@
+import { act } from 'react-dom/test-utils'
+
+/**
+ * Helpers for simulating user interaction in jsdom, which neither implements `PointerEvent` nor `getScreenCTM` (SVG
+ * coordinates are client coordinates then).
+ */
+
+export const mockScreenCTM = () => {
+    Object.defineProperty(SVGElement.prototype, 'getScreenCTM', {
+        value: () => ({ a: 1, d: 1, e: 0, f: 0 }),
+        configurable: true,
+    })
+    return () => {
+        delete (SVGElement.prototype as Partial<SVGGraphicsElement>).getScreenCTM
+    }
+}
+
+/** The element handling all pointer interaction (zooming, panning, sketching, ...) of the first timeline */
+export const interactionArea = (container: Element) => container.querySelector('svg > g')!
+
+interface PointerOptions {
+    x: number
+    y: number
+    pointerId?: number
+    pointerType?: string
+    button?: number
+    altKey?: boolean
+    shiftKey?: boolean
+    ctrlKey?: boolean
+}
+
+export const pointer = (target: Element, type: string, options: PointerOptions) => {
+    const { x, y, pointerId = 1, pointerType = 'mouse', ...modifiers } = options
+    const event = new MouseEvent(type, { bubbles: true, cancelable: true, clientX: x, clientY: y, ...modifiers })
+    Object.defineProperties(event, { pointerId: { value: pointerId }, pointerType: { value: pointerType } })
+    act(() => {
+        target.dispatchEvent(event)
+    })
+}
+
+/** Pointer moving from outside onto the target (i.e. triggering `onPointerEnter`) */
+export const pointerEnter = (target: Element, options: PointerOptions) => {
+    pointer(target, 'pointerover', options)
+    pointer(target, 'pointermove', options)
+}
+
+/** Pointer moving from the target to outside of it (i.e. triggering `onPointerLeave`) */
+export const pointerLeave = (target: Element, options: PointerOptions) => {
+    const { x, y, pointerId = 1, pointerType = 'mouse' } = options
+    const event = new MouseEvent('pointerout', { bubbles: true, clientX: x, clientY: y, relatedTarget: document.body })
+    Object.defineProperties(event, { pointerId: { value: pointerId }, pointerType: { value: pointerType } })
+    act(() => {
+        target.dispatchEvent(event)
+    })
+}
+
+export const click = (target: Element, options: PointerOptions) => {
+    pointer(target, 'pointerdown', options)
+    pointer(target, 'pointerup', options)
+}
+
+export const drag = (target: Element, from: PointerOptions, to: PointerOptions) => {
+    pointer(target, 'pointerdown', from)
+    pointer(target, 'pointermove', to)
+    pointer(target, 'pointerup', to)
+}
+
+export const wheel = (target: Element, options: WheelEventInit) => {
+    act(() => {
+        target.dispatchEvent(new WheelEvent('wheel', { bubbles: true, cancelable: true, ...options }))
+    })
+}
+
+/** Returns the dispatched event, e.g. for checking whether the timeline handled it (i.e. prevented its default) */
+export const keyDown = (target: Element, key: string, options: KeyboardEventInit = {}) => {
+    const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...options })
+    act(() => {
+        target.dispatchEvent(event)
+    })
+    return event
+}
+
+/** Animation frames (of the mocked `Date.now`) only run when explicitly triggered */
+export const mockAnimationFrames = () => {
+    const frames = new Map<number, FrameRequestCallback>()
+    let nextFrame = 1
+    const [requestAnimationFrame, cancelAnimationFrame] = [window.requestAnimationFrame, window.cancelAnimationFrame]
+    window.requestAnimationFrame = (callback) => {
+        frames.set(nextFrame, callback)
+        return nextFrame++
+    }
+    window.cancelAnimationFrame = (frame) => frames.delete(frame)
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(0)
+    return {
+        pendingFrames: () => frames.size,
+        /** Runs the pending frames at the given time */
+        runFrames: (time: number) => {
+            dateNow.mockReturnValue(time)
+            const pendingFrames = Array.from(frames.values())
+            frames.clear()
+            act(() => pendingFrames.forEach((callback) => callback(time)))
+        },
+        restore: () => {
+            window.requestAnimationFrame = requestAnimationFrame
+            window.cancelAnimationFrame = cancelAnimationFrame
+            dateNow.mockRestore()
+        },
+    }
+}